@@ -0,0 +1,48 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { serializeRequest } from '../src/lib/scheduleFormat';
+
+const dir = mkdtempSync(join(tmpdir(), "kiln-schedule-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+// Runs the command as the shell would, returning its exit code and what it printed
+async function run(...args: string[]) {
+    const out: string[] = [];
+    const err: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((text: string) => { out.push(text); });
+    vi.spyOn(console, 'error').mockImplementation((text: string) => { err.push(text); });
+    vi.stubGlobal('process', { ...process, argv: ["node", "kiln-schedule", ...args], exitCode: undefined });
+    vi.resetModules();
+    await import('./kilnSchedule');
+    return { code: process.exitCode ?? 0, out: out.join("\n"), err: err.join("\n") };
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+describe("kiln-schedule", () => {
+    it("prints a controller program for the piece on the command line", async () => {
+        const { code, out } = await run("--glass", "bullseye", "--thickness", "0.25");
+        expect(code).toBe(0);
+        expect(out).toMatch(/961/);
+    });
+
+    it("exits 1 when the engine rejects the schedule", async () => {
+        const { code, err } = await run("--glass", "bullseye", "--thickness", "0");
+        expect(code).toBe(1);
+        expect(err).toMatch(/error: thickness/);
+    });
+
+    it("refuses to relabel a request file's units", async () => {
+        const file = join(dir, "metric.json");
+        writeFileSync(file, serializeRequest({ glass: "Bullseye (COE 90)", thickness: 1.2, units: 'metric' }));
+        const { code, err } = await run("--request", file, "--units", "imperial");
+        expect(code).toBe(2);
+        expect(err).toMatch(/--units imperial doesn't match the request file, which is in metric units/);
+        expect((await run("--request", file, "--units", "metric", "--format", "json")).code).toBe(0);
+    });
+});
@@ -0,0 +1,281 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { CONSERVATIVENESS_FACTORS, GLASS_LIBRARY, SHAPE_FACTORS, calculateSchedule } from '../src/lib/annealingLogic';
+import type { Conservativeness, GlassType, ScheduleMode, ScheduleRequest, ScheduleResult, ShapeFactor, UnitSystem } from '../src/lib/annealingLogic';
+import { CONTROLLERS, formatForController } from '../src/lib/controllers';
+import type { ControllerId } from '../src/lib/controllers';
+import { csvField } from '../src/lib/batchSchedules';
+import { SCHEDULE_FORMAT_VERSION, parseRequest, serializeResult } from '../src/lib/scheduleFormat';
+
+const USAGE = `Usage: kiln-schedule [options]
+
+Generates an annealing schedule with the same engine as the web calculator.
+
+Piece:
+  --glass <name>         Library glass, or any unique part of its name (e.g. "bullseye")
+  --thickness <n>        cm (metric) or inches (imperial)
+  --units <u>            imperial (default) or metric; applies to every value given
+                         and must match a request file's units
+  --mode <m>             anneal_only (default), tack_fuse, full_fuse, slump, cast
+  --shape <s>            slab (default), uneven, hollow_deep
+  --safety <s>           fast (default), standard, cautious
+
+Overrides:
+  --anneal <temp>        Anneal temperature
+  --strain <temp>        Strain point
+  --process-temp <temp>  Top temperature
+  --hold <minutes>       Hold at top temperature
+  --ramp <rate>          One heating rate all the way up
+  --unload <temp>        Temperature the kiln may be opened at
+
+Input files:
+  --request <file>       A kiln-schedule-request JSON document (v${SCHEDULE_FORMAT_VERSION}); flags override its values
+  --batch <file>         CSV with one piece per row. Columns are the option names above
+                         (glass, thickness, process-temp, ...) plus an optional "label";
+                         empty cells take the defaults, and flags fill in missing columns.
+
+Output:
+  --format <f>           controller (default), json or csv
+  --controller <id>      ${Object.keys(CONTROLLERS).join(", ")}
+                         (default paragon_sentry)
+  -h, --help
+
+Exits 1 when a schedule has validation errors, 2 on bad options or files.`;
+
+// Option names double as the batch file's column headings
+const PIECE_OPTIONS = ["glass", "thickness", "units", "mode", "shape", "safety", "anneal", "strain", "process-temp", "hold", "ramp", "unload"] as const;
+type PieceOption = typeof PIECE_OPTIONS[number];
+type PieceValues = Partial<Record<PieceOption, string>>;
+
+const MODES = ["anneal_only", "tack_fuse", "full_fuse", "slump", "cast"];
+const FORMATS = ["controller", "json", "csv"];
+
+// Bad input from the command line or a file, as opposed to a schedule the engine rejects
+class UsageError extends Error {}
+
+interface Piece {
+    label: string;
+    request: ScheduleRequest;
+}
+
+function findGlass(name: string): GlassType {
+    const keys = Object.keys(GLASS_LIBRARY) as GlassType[];
+    const exact = keys.find(k => k.toLowerCase() === name.toLowerCase());
+    if (exact) return exact;
+    const matches = keys.filter(k => k.toLowerCase().includes(name.toLowerCase()));
+    if (matches.length === 1) return matches[0];
+    throw new UsageError(matches.length === 0
+        ? `No glass matches "${name}". Known: ${keys.join("; ")}.`
+        : `"${name}" matches several glasses: ${matches.join("; ")}.`);
+}
+
+function pick<T extends string>(value: string, name: string, choices: readonly string[]): T {
+    if (!choices.includes(value)) throw new UsageError(`--${name} must be one of: ${choices.join(", ")}.`);
+    return value as T;
+}
+
+function number(value: string, name: string): number {
+    const n = Number(value);
+    if (value.trim() === "" || !isFinite(n)) throw new UsageError(`--${name} must be a number, not "${value}".`);
+    return n;
+}
+
+/**
+ * Builds a request from option values, on top of `base` when a request file gave one.
+ */
+function buildRequest(values: PieceValues, base?: ScheduleRequest): ScheduleRequest {
+    const given = (key: PieceOption) => values[key] !== undefined && values[key] !== "" ? values[key] : undefined;
+    const num = (key: PieceOption) => {
+        const v = given(key);
+        return v === undefined ? undefined : number(v, key);
+    };
+
+    const glassName = given("glass");
+    const glass = glassName !== undefined ? findGlass(glassName) : base?.glass;
+    if (glass === undefined) throw new UsageError("Missing --glass.");
+    const thickness = num("thickness") ?? base?.thickness;
+    if (thickness === undefined) throw new UsageError("Missing --thickness.");
+
+    // A request file's values are in its own units; --units would only relabel them
+    const unitsGiven = given("units");
+    const units = unitsGiven !== undefined ? pick<UnitSystem>(unitsGiven, "units", ["imperial", "metric"]) : base?.units ?? "imperial";
+    if (base && units !== base.units) {
+        throw new UsageError(`--units ${units} doesn't match the request file, which is in ${base.units} units.`);
+    }
+    const mode = given("mode");
+    const shape = given("shape");
+    const safety = given("safety");
+    const unload = num("unload");
+    return {
+        ...base,
+        glass,
+        thickness,
+        units,
+        mode: mode !== undefined ? pick<ScheduleMode>(mode, "mode", MODES) : base?.mode,
+        shape: shape !== undefined ? pick<ShapeFactor>(shape, "shape", Object.keys(SHAPE_FACTORS)) : base?.shape,
+        conservativeness: safety !== undefined ? pick<Conservativeness>(safety, "safety", Object.keys(CONSERVATIVENESS_FACTORS)) : base?.conservativeness,
+        anneal_temp: num("anneal") ?? base?.anneal_temp,
+        strain_point: num("strain") ?? base?.strain_point,
+        process_temp: num("process-temp") ?? base?.process_temp,
+        process_hold_minutes: num("hold") ?? base?.process_hold_minutes,
+        process_ramp: num("ramp") ?? base?.process_ramp,
+        cooling: unload !== undefined ? { ...base?.cooling, unload_temp: unload } : base?.cooling
+    };
+}
+
+function readText(path: string): string {
+    try {
+        return readFileSync(path, 'utf8');
+    } catch {
+        throw new UsageError(`Can't read ${path}.`);
+    }
+}
+
+// Splits CSV text into rows of fields, honouring double-quoted fields
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = "";
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length) rows.push([...row, field]);
+    return rows.filter(r => r.some(f => f.trim() !== ""));
+}
+
+function readBatch(path: string, defaults: PieceValues, base?: ScheduleRequest): Piece[] {
+    const [header, ...rows] = parseCsv(readText(path));
+    if (!header) throw new UsageError(`${path} is empty.`);
+    const columns = header.map(h => h.trim().toLowerCase());
+    const unknown = columns.filter(c => c !== "label" && !(PIECE_OPTIONS as readonly string[]).includes(c));
+    if (unknown.length) throw new UsageError(`${path}: unknown column(s) ${unknown.join(", ")}.`);
+
+    return rows.map((row, i) => {
+        const values: PieceValues = { ...defaults };
+        let label = `Row ${i + 2}`;
+        columns.forEach((column, c) => {
+            const cell = (row[c] ?? "").trim();
+            if (column === "label") {
+                if (cell) label = cell;
+            } else if (cell) {
+                values[column as PieceOption] = cell;
+            }
+        });
+        try {
+            return { label, request: buildRequest(values, base) };
+        } catch (err) {
+            throw new UsageError(`${path}, ${label}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    });
+}
+
+const SEGMENT_COLUMNS = ["piece", "units", "segment", "purpose", "label", "rate_per_hour", "target", "hold_minutes", "ramp_hours"];
+
+function segmentRows(label: string, result: ScheduleResult): string[][] {
+    return result.segments.map((seg, i) => [
+        label,
+        result.units,
+        `${i + 1}`,
+        seg.purpose,
+        seg.label,
+        seg.rate === "AFAP" ? "AFAP" : seg.rate.toFixed(1),
+        seg.target.toFixed(1),
+        seg.hold === "indefinite" ? "indefinite" : `${Math.round(seg.hold)}`,
+        seg.ramp_hours.toFixed(2)
+    ]);
+}
+
+function main(argv: string[]): number {
+    const { values: parsed } = parseArgs({
+        args: argv,
+        options: {
+            ...Object.fromEntries(PIECE_OPTIONS.map(name => [name, { type: 'string' as const }])),
+            request: { type: 'string' },
+            batch: { type: 'string' },
+            format: { type: 'string', default: "controller" },
+            controller: { type: 'string', default: "paragon_sentry" },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    // The piece options are spread in, so index by name
+    const values = parsed as Record<string, string | boolean | undefined>;
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const format = pick(values.format as string, "format", FORMATS);
+    const controller = pick<ControllerId>(values.controller as string, "controller", Object.keys(CONTROLLERS));
+    const flags = Object.fromEntries(PIECE_OPTIONS
+        .filter(name => values[name] !== undefined)
+        .map(name => [name, values[name] as string])) as PieceValues;
+
+    let base: ScheduleRequest | undefined;
+    if (typeof values.request === 'string') {
+        try {
+            base = parseRequest(readText(values.request));
+        } catch (err) {
+            throw err instanceof UsageError ? err : new UsageError(`${values.request}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+    const pieces: Piece[] = typeof values.batch === 'string'
+        ? readBatch(values.batch, flags, base)
+        : [{ label: "Schedule", request: buildRequest(flags, base) }];
+
+    let failed = false;
+    const results = pieces.map(({ label, request }) => {
+        const result = calculateSchedule(request);
+        result.issues.forEach((issue) => {
+            console.error(`${pieces.length > 1 ? `${label}: ` : ""}${issue.severity}: ${issue.field}: ${issue.message}`);
+        });
+        if (result.issues.some(issue => issue.severity === "error")) failed = true;
+        return { label, request, result };
+    });
+
+    if (format === "json") {
+        const docs = results.map(r => serializeResult(r.result, r.request));
+        console.log(pieces.length > 1 ? `[\n${docs.join(",\n")}\n]` : docs[0]);
+    } else if (format === "csv") {
+        const rows = results.flatMap(r => segmentRows(r.label, r.result));
+        console.log([SEGMENT_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\n'));
+    } else {
+        const blocks = results
+            .filter(r => r.result.segments.length > 0)
+            .map(r => (pieces.length > 1 ? `=== ${r.label} ===\n` : "") + formatForController(r.result, controller));
+        if (blocks.length) console.log(blocks.join("\n\n"));
+    }
+    return failed ? 1 : 0;
+}
+
+try {
+    process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+    // parseArgs reports unknown or malformed options as a TypeError
+    console.error(`kiln-schedule: ${err instanceof Error ? err.message : String(err)}`);
+    if (!(err instanceof UsageError)) console.error("Run with --help for the options.");
+    process.exitCode = 2;
+}
@@ -1,35 +1,394 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { GLASS_LIBRARY, calculateSchedule } from './lib/annealingLogic';
-import type { GlassType, ScheduleResult, ScheduleMode, UnitSystem, ShapeFactor, Conservativeness } from './lib/annealingLogic';
+import type { ScheduleRequest, ScheduleResult, ScheduleIssue, ScheduleMode, UnitSystem, ShapeFactor, Conservativeness, CrashCool, ProgramStage } from './lib/annealingLogic';
+import { CONTROLLERS, DEFAULT_CONTROLLERS, fitToController, formatForController } from './lib/controllers';
+import type { ControllerId } from './lib/controllers';
+import { BUILT_IN_GLASSES, addLinkedGlasses, loadUserGlasses, saveUserGlasses } from './lib/glassLibrary';
+import type { GlassProfile } from './lib/glassLibrary';
+import { combineGlasses } from './lib/glassCompatibility';
+import { loadKilnProfiles, saveKilnProfiles } from './lib/kilnProfiles';
+import { compareLogToPlan } from './lib/firingLog';
+import type { FiringLogPoint } from './lib/firingLog';
+import type { KilnProfile } from './lib/kilnProfiles';
 import { AnnealingChart } from './components/AnnealingChart';
-import { Activity, Flame, ThermometerSnowflake, Settings, RotateCcw, Share2, Info, X } from 'lucide-react';
+import { FiringLogPanel } from './components/FiringLogPanel';
+import { GlassLibraryManager } from './components/GlassLibraryManager';
+import { KilnProfileManager } from './components/KilnProfileManager';
+import { NotebookManager } from './components/NotebookManager';
+import { ProgramStagesEditor } from './components/ProgramStagesEditor';
+import { ProjectPlanner } from './components/ProjectPlanner';
+import { parseStages } from './lib/programStages';
+import type { StageForm } from './lib/programStages';
+import { DEFAULT_INPUTS, decodePermalink, encodePermalink } from './lib/permalink';
+import type { CalculatorInputs, LinkedGlass } from './lib/permalink';
+import { createNotebookEntry, loadNotebook, saveNotebook } from './lib/notebook';
+import type { NotebookEntry } from './lib/notebook';
+import { MAX_COMPARED } from './lib/comparison';
+import type { ComparedSchedule } from './lib/comparison';
+import { ComparisonPanel } from './components/ComparisonPanel';
+import { BatchGenerator } from './components/BatchGenerator';
+import { KilnSheetView } from './components/KilnSheetView';
+import { CastingEstimator } from './components/CastingEstimator';
+import { FieldIssues } from './components/FieldIssues';
+import { ProgramAudit } from './components/ProgramAudit';
+import { ThermalSimulationPanel } from './components/ThermalSimulationPanel';
+import type { ThermalSimulation } from './lib/thermalSimulation';
+import { Activity, Flame, ThermometerSnowflake, Settings, RotateCcw, Share2, Info, X, AlertTriangle, Library, Layers, Plus, Trash2, ListOrdered, BookOpen, Save, GitCompare, Table, Printer, Ruler, ClipboardCheck } from 'lucide-react';
+
+// Inputs from a shared link, if the page was opened with one
+const linked = typeof window === 'undefined' ? null : decodePermalink(window.location.hash);
+const initial = linked?.inputs ?? DEFAULT_INPUTS;
+
+// Glasses that came with a link and aren't in this browser's library. They can be used
+// straight away but are only saved if the user keeps them.
+const glassesFromLink = (own: GlassProfile[]) => addLinkedGlasses(own, linked?.glasses ?? []).slice(own.length);
+
+interface ResultPiece {
+  glassName: string;
+  thickness: number; // Result units
+  shape: ShapeFactor;
+  conservativeness: Conservativeness;
+  mode: ScheduleMode;
+  coe: number | null;
+  density?: number;
+}
+
+// Filled in with the engine's defaults
+const pieceOf = (request: ScheduleRequest, glassName: string): ResultPiece => {
+  const glass = typeof request.glass === 'string' ? GLASS_LIBRARY[request.glass] : request.glass;
+  return {
+    glassName,
+    thickness: request.thickness,
+    shape: request.shape ?? 'slab',
+    conservativeness: request.conservativeness ?? 'fast',
+    mode: request.mode ?? 'anneal_only',
+    coe: glass.coe,
+    density: glass.density,
+  };
+};
+
+// A saved entry keeps its inputs rather than the request; several glasses combine as they did for the schedule
+const pieceOfInputs = (inputs: CalculatorInputs, glassName: string, find: (id: string) => GlassProfile): ResultPiece => {
+  const combined = inputs.multiGlass && inputs.layers.length > 0
+    ? combineGlasses(inputs.layers.map(l => {
+      const g = find(l.glassId);
+      return { name: g.name, properties: g.properties, thickness: parseFloat(l.thickness) || 0 };
+    }))
+    : null;
+  const glass = combined ? combined.properties : find(inputs.glassId).properties;
+  return {
+    glassName,
+    thickness: combined ? combined.total_thickness : parseFloat(inputs.thickness),
+    shape: inputs.shape,
+    conservativeness: inputs.conservativeness,
+    mode: inputs.scheduleMode,
+    coe: glass.coe,
+    density: glass.density,
+  };
+};
+
+const formatThickness = (thickness: number, units: UnitSystem) => thickness.toFixed(units === 'metric' ? 2 : 3);
 
 function App() {
-  const [glassType, setGlassType] = useState<GlassType>("Bullseye (COE 90)");
-  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>("anneal_only");
-  const [thickness, setThickness] = useState<string>("0.25"); // Default to inch-like start
-  const [units, setUnits] = useState<UnitSystem>("imperial");
+  const [glassId, setGlassId] = useState<string>(initial.glassId);
+  const [userGlasses, setUserGlasses] = useState<GlassProfile[]>(loadUserGlasses);
+  const [linkGlasses, setLinkGlasses] = useState<GlassProfile[]>(() => glassesFromLink(userGlasses));
+  const [showGlassLibrary, setShowGlassLibrary] = useState(false);
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>(initial.scheduleMode);
+  const [thickness, setThickness] = useState<string>(initial.thickness)
+  const [units, setUnits] = useState<UnitSystem>(initial.units);
+
+  // Multi-Glass Piece (layer thicknesses in current units)
+  const [multiGlass, setMultiGlass] = useState<boolean>(initial.multiGlass);
+  const [layers, setLayers] = useState<{ glassId: string; thickness: string }[]>(initial.layers);
 
   // Physics Controls
-  const [shape, setShape] = useState<ShapeFactor>("slab");
-  const [conservativeness, setConservativeness] = useState<Conservativeness>("fast");
+  const [shape, setShape] = useState<ShapeFactor>(initial.shape);
+  const [conservativeness, setConservativeness] = useState<Conservativeness>(initial.conservativeness);
 
   // Custom Overrides
-  const [customAnneal, setCustomAnneal] = useState<string>("");
-  const [customStrain, setCustomStrain] = useState<string>("");
+  const [customAnneal, setCustomAnneal] = useState<string>(initial.customAnneal);
+  const [customStrain, setCustomStrain] = useState<string>(initial.customStrain);
 
   // Clean Process Overrides
-  const [processTemp, setProcessTemp] = useState<string>("");
-  const [processHold, setProcessHold] = useState<string>("");
-  const [processHoldIndefinite, setProcessHoldIndefinite] = useState<boolean>(false);
-  const [processRamp, setProcessRamp] = useState<string>("");
-  const [moldDryHours, setMoldDryHours] = useState<string>("");
-  const [moldDryTemp, setMoldDryTemp] = useState<string>("");
+  const [processTemp, setProcessTemp] = useState<string>(initial.processTemp);
+  const [processHold, setProcessHold] = useState<string>(initial.processHold);
+  const [processHoldIndefinite, setProcessHoldIndefinite] = useState<boolean>(initial.processHoldIndefinite);
+  const [processRamp, setProcessRamp] = useState<string>(initial.processRamp);
+  const [moldDryHours, setMoldDryHours] = useState<string>(initial.moldDryHours);
+  const [moldDryTemp, setMoldDryTemp] = useState<string>(initial.moldDryTemp);
+
+  // Bubble Squeeze (fuse and cast modes)
+  const [bubbleSqueeze, setBubbleSqueeze] = useState<boolean>(initial.bubbleSqueeze);
+  const [squeezeLayers, setSqueezeLayers] = useState<string>(initial.squeezeLayers);
+  const [squeezeArea, setSqueezeArea] = useState<string>(initial.squeezeArea);
+
+  // Kiln & Cool Down
+  const [kilnProfiles, setKilnProfiles] = useState<KilnProfile[]>(loadKilnProfiles);
+  const [kilnId, setKilnId] = useState<string>("");
+  const [showKilnProfiles, setShowKilnProfiles] = useState(false);
+  const [unloadTemp, setUnloadTemp] = useState<string>(initial.unloadTemp);
+  const [crashCool, setCrashCool] = useState<CrashCool>(initial.crashCool);
+  const [crashRate, setCrashRate] = useState<string>(initial.crashRate);
+  const [ventLid, setVentLid] = useState<boolean>(initial.ventLid);
+
+  // Piece Size & Placement (blank = small piece, centered)
+  const [pieceLength, setPieceLength] = useState<string>(initial.pieceLength);
+  const [pieceWidth, setPieceWidth] = useState<string>(initial.pieceWidth);
+  const [kilnFloorLength, setKilnFloorLength] = useState<string>(initial.kilnFloorLength);
+  const [kilnFloorWidth, setKilnFloorWidth] = useState<string>(initial.kilnFloorWidth);
+  const [edgeGap, setEdgeGap] = useState<string>(initial.edgeGap);
+
+  // Custom Program Stages
+  const [programStages, setProgramStages] = useState<StageForm[]>(initial.programStages);
   const [showInfo, setShowInfo] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const [notebook, setNotebook] = useState<NotebookEntry[]>(loadNotebook);
+  const [showNotebook, setShowNotebook] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showSheet, setShowSheet] = useState(false);
+  const [showCasting, setShowCasting] = useState(false);
+  const [auditTarget, setAuditTarget] = useState<{ recommended: ScheduleResult; glassName: string } | null>(null);
+
+  const [selectedControllers, setSelectedControllers] = useState<ControllerId[]>(DEFAULT_CONTROLLERS);
 
   const [result, setResult] = useState<ScheduleResult | null>(null);
+  // The piece the shown schedule was generated for. The form may have changed since, and
+  // a Project Planner firing has its own thickness, shape and mode.
+  const [resultPiece, setResultPiece] = useState<ResultPiece | null>(null);
   const [chartVersion, setChartVersion] = useState(0);
+  // Validation errors and warnings from the last Generate, shown beside their inputs
+  const [issues, setIssues] = useState<ScheduleIssue[]>([]);
+
+  // Imported controller log (result units) for actual-vs-planned
+  const [firingLog, setFiringLog] = useState<FiringLogPoint[] | null>(null);
+  const [logTolerance, setLogTolerance] = useState<string>("25");
+
+  // Heat-flow simulation, kept with the schedule it was run on so a new schedule drops it
+  const [heatFlow, setHeatFlow] = useState<{ result: ScheduleResult; simulation: ThermalSimulation } | null>(null);
+
+  // Schedules pinned for side-by-side comparison, each in the units it was generated in
+  const [compared, setCompared] = useState<ComparedSchedule[]>([]);
+
+  // A deleted profile falls back to the first built-in
+  const findGlass = (id: string) => [...BUILT_IN_GLASSES, ...userGlasses, ...linkGlasses].find(g => g.id === id) ?? BUILT_IN_GLASSES[0];
+  const selectedGlass = findGlass(glassId);
+
+  const buildCompatibility = (layerList: { glassId: string; thickness: string }[]) => {
+    if (!multiGlass || layerList.length === 0) return null;
+    return combineGlasses(layerList.map(l => {
+      const g = findGlass(l.glassId);
+      return { name: g.name, properties: g.properties, thickness: parseFloat(l.thickness) || 0 };
+    }));
+  };
+  const compatibility = buildCompatibility(layers);
+
+  // The schedule is driven by the combined glass when the piece has several
+  const scheduleGlass = compatibility ? compatibility.properties : selectedGlass.properties;
+  const selectedKiln = kilnProfiles.find(k => k.id === kilnId);
+  const logComparison = result && firingLog ? compareLogToPlan(firingLog, result, parseFloat(logTolerance) || 0) : null;
+  const simulation = heatFlow && heatFlow.result === result ? heatFlow.simulation : null;
+
+  const scheduleGlassName = compatibility ? layers.map(l => findGlass(l.glassId).name).join(' + ') : selectedGlass.name;
+  const needsCustomTemps = scheduleGlass.anneal_temp === null || scheduleGlass.strain_point === null;
+
+  const glassOptions = (
+    <>
+      <optgroup label="Built-in">
+        {BUILT_IN_GLASSES.map((g) => (
+          <option key={g.id} value={g.id}>{g.name}</option>
+        ))}
+      </optgroup>
+      {userGlasses.length > 0 && (
+        <optgroup label="My Glasses">
+          {userGlasses.map((g) => (
+            <option key={g.id} value={g.id}>{g.name}</option>
+          ))}
+        </optgroup>
+      )}
+      {linkGlasses.length > 0 && (
+        <optgroup label="From Link">
+          {linkGlasses.map((g) => (
+            <option key={g.id} value={g.id}>{g.name}</option>
+          ))}
+        </optgroup>
+      )}
+    </>
+  );
+
+  const squeezeModes: ScheduleMode[] = ['tack_fuse', 'full_fuse', 'cast'];
+  const buildSqueezeOptions = (areaStr: string) => {
+    if (!bubbleSqueeze || !squeezeModes.includes(scheduleMode)) return undefined;
+    return {
+      layers: parseFloat(squeezeLayers) || (multiGlass ? layers.length : 2),
+      area: parseFloat(areaStr) || 0
+    };
+  };
+
+  const buildCoolingOptions = (unloadStr: string, rateStr: string) => ({
+    unload_temp: unloadStr ? parseFloat(unloadStr) : undefined,
+    crash_cool: crashCool,
+    crash_rate: rateStr ? parseFloat(rateStr) : undefined,
+    vent_lid: ventLid
+  });
+
+  const buildPlacement = (lengths: Pick<CalculatorInputs, 'pieceLength' | 'pieceWidth' | 'kilnFloorLength' | 'kilnFloorWidth' | 'edgeGap'>) => {
+    const length = parseFloat(lengths.pieceLength);
+    if (isNaN(length) || length <= 0) return undefined;
+    const optional = (v: string) => isNaN(parseFloat(v)) ? undefined : parseFloat(v);
+    return {
+      length,
+      width: optional(lengths.pieceWidth),
+      kiln_length: optional(lengths.kilnFloorLength),
+      kiln_width: optional(lengths.kilnFloorWidth),
+      edge_gap: optional(lengths.edgeGap)
+    };
+  };
+
+  // The engine request for a set of form inputs, with program stages as parsed (or the
+  // reason they didn't parse). Process settings only apply to the modes that use them.
+  const buildRequest = (inputs: CalculatorInputs): { request: ScheduleRequest; stages: ProgramStage[] | string } => {
+    const combined = buildCompatibility(inputs.layers);
+    const optional = (v: string) => v ? parseFloat(v) : undefined;
+    const firing = inputs.scheduleMode !== 'anneal_only' && inputs.scheduleMode !== 'custom';
+    const moldDry = firing && inputs.scheduleMode === 'cast' && !!inputs.moldDryHours;
+    const stages = inputs.scheduleMode === 'custom' ? parseStages(inputs.programStages) : [];
+    return {
+      stages,
+      request: {
+        glass: combined ? combined.properties : findGlass(inputs.glassId).properties,
+        thickness: combined ? combined.total_thickness : parseFloat(inputs.thickness),
+        units: inputs.units,
+        mode: inputs.scheduleMode,
+        shape: inputs.shape,
+        conservativeness: inputs.conservativeness,
+        anneal_temp: optional(inputs.customAnneal),
+        strain_point: optional(inputs.customStrain),
+        process_temp: firing ? optional(inputs.processTemp) : undefined,
+        process_hold_minutes: firing ? optional(inputs.processHold) : undefined,
+        process_hold_indefinite: inputs.processHoldIndefinite,
+        process_ramp: firing ? optional(inputs.processRamp) : undefined,
+        mold_dry_hours: moldDry ? optional(inputs.moldDryHours) : undefined,
+        mold_dry_temp: moldDry ? optional(inputs.moldDryTemp) : undefined,
+        stages: typeof stages === 'string' ? [] : stages,
+        bubble_squeeze: buildSqueezeOptions(inputs.squeezeArea),
+        cooling: buildCoolingOptions(inputs.unloadTemp, inputs.crashRate),
+        kiln: selectedKiln?.properties,
+        placement: buildPlacement(inputs)
+      }
+    };
+  };
+
+  const currentInputs = (): CalculatorInputs => ({
+    glassId, scheduleMode, thickness, units, multiGlass, layers, shape, conservativeness,
+    customAnneal, customStrain, processTemp, processHold, processHoldIndefinite, processRamp,
+    moldDryHours, moldDryTemp, bubbleSqueeze, squeezeLayers, squeezeArea, programStages,
+    unloadTemp, crashCool, crashRate, ventLid,
+    pieceLength, pieceWidth, kilnFloorLength, kilnFloorWidth, edgeGap
+  });
+
+  // The user's own glasses the form refers to, so the link works in another browser
+  const linkedGlasses = (): LinkedGlass[] => {
+    const ids = multiGlass ? layers.map(l => l.glassId) : [glassId];
+    return [...userGlasses, ...linkGlasses]
+      .filter(g => ids.includes(g.id))
+      .map(g => ({ id: g.id, name: g.name, properties: g.properties }));
+  };
+
+  const applyInputs = (inputs: CalculatorInputs) => {
+    setGlassId(inputs.glassId);
+    setScheduleMode(inputs.scheduleMode);
+    setThickness(inputs.thickness);
+    setUnits(inputs.units);
+    setMultiGlass(inputs.multiGlass);
+    setLayers(inputs.layers);
+    setShape(inputs.shape);
+    setConservativeness(inputs.conservativeness);
+    setCustomAnneal(inputs.customAnneal);
+    setCustomStrain(inputs.customStrain);
+    setProcessTemp(inputs.processTemp);
+    setProcessHold(inputs.processHold);
+    setProcessHoldIndefinite(inputs.processHoldIndefinite);
+    setProcessRamp(inputs.processRamp);
+    setMoldDryHours(inputs.moldDryHours);
+    setMoldDryTemp(inputs.moldDryTemp);
+    setBubbleSqueeze(inputs.bubbleSqueeze);
+    setSqueezeLayers(inputs.squeezeLayers);
+    setSqueezeArea(inputs.squeezeArea);
+    setProgramStages(inputs.programStages);
+    setUnloadTemp(inputs.unloadTemp);
+    setCrashCool(inputs.crashCool);
+    setCrashRate(inputs.crashRate);
+    setVentLid(inputs.ventLid);
+    setPieceLength(inputs.pieceLength);
+    setPieceWidth(inputs.pieceWidth);
+    setKilnFloorLength(inputs.kilnFloorLength);
+    setKilnFloorWidth(inputs.kilnFloorWidth);
+    setEdgeGap(inputs.edgeGap);
+  };
+
+  const permalink = () => `${window.location.origin}${window.location.pathname}#${encodePermalink(currentInputs(), linkedGlasses())}`;
+
+  const toggleMultiGlass = (enabled: boolean) => {
+    setMultiGlass(enabled);
+    if (enabled && layers.length === 0) setLayers([{ glassId: selectedGlass.id, thickness }]);
+  };
+
+  const updateLayer = (index: number, change: Partial<{ glassId: string; thickness: string }>) => {
+    setLayers(layers.map((l, i) => i === index ? { ...l, ...change } : l));
+  };
+
+  const updateUserGlasses = (profiles: GlassProfile[]) => {
+    setUserGlasses(profiles);
+    saveUserGlasses(profiles);
+  };
+
+  const keepLinkGlasses = () => {
+    updateUserGlasses(addLinkedGlasses(userGlasses, linkGlasses));
+    setLinkGlasses([]);
+  };
+
+  // Throws when browser storage is full; the notebook shows the message
+  const updateNotebook = (entries: NotebookEntry[]) => {
+    saveNotebook(entries);
+    setNotebook(entries);
+  };
+
+  const handleSaveToNotebook = () => {
+    if (!result) return;
+    const name = prompt("Name this schedule", `${scheduleGlassName}, ${thickness} ${units === 'metric' ? 'cm' : 'in'}`);
+    if (!name) return;
+    try {
+      updateNotebook([createNotebookEntry(name, scheduleGlassName, currentInputs(), linkedGlasses(), result), ...notebook]);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const addToComparison = () => {
+    if (!result || !resultPiece || compared.length >= MAX_COMPARED) return;
+    const { glassName, thickness, shape, conservativeness } = resultPiece;
+    const label = `${glassName}, ${formatThickness(thickness, result.units)} ${result.units === 'metric' ? 'cm' : 'in'}, ${shape}, ${conservativeness}`;
+    setCompared([...compared, { label, result }]);
+  };
+
+  const openNotebookEntry = (entry: NotebookEntry) => {
+    const merged = addLinkedGlasses(userGlasses, entry.glasses);
+    if (merged !== userGlasses) updateUserGlasses(merged);
+    applyInputs(entry.inputs);
+    setResult(entry.result);
+    const glasses = [...BUILT_IN_GLASSES, ...merged, ...linkGlasses];
+    setResultPiece(pieceOfInputs(entry.inputs, entry.glass_name, id => glasses.find(g => g.id === id) ?? BUILT_IN_GLASSES[0]));
+    setIssues(entry.result.issues);
+    setChartVersion(v => v + 1);
+    setShowNotebook(false);
+  };
+
+  const updateKilnProfiles = (profiles: KilnProfile[]) => {
+    setKilnProfiles(profiles);
+    saveKilnProfiles(profiles);
+  };
 
   const toggleUnits = () => {
     const newUnits = units === 'imperial' ? 'metric' : 'imperial';
@@ -49,6 +408,13 @@ function App() {
       setThickness(newThickness);
     }
 
+    const newLayers = layers.map(l => {
+      const v = parseFloat(l.thickness);
+      if (isNaN(v)) return l;
+      return { ...l, thickness: newUnits === 'metric' ? (v * 2.54).toFixed(2) : (v / 2.54).toFixed(3) };
+    });
+    setLayers(newLayers);
+
     // 2. Helper for C <-> F conversion
     const toC = (f: number) => (f - 32) * 5 / 9;
     const toF = (c: number) => (c * 9 / 5) + 32;
@@ -86,151 +452,155 @@ function App() {
       }
     };
     const newProcessRamp = convertRateField(processRamp);
+    const newUnloadTemp = convertTempField(unloadTemp);
+    const newCrashRate = convertRateField(crashRate);
 
     setCustomAnneal(newCustomAnneal);
     setCustomStrain(newCustomStrain);
     setProcessTemp(newProcessTemp);
     setProcessRamp(newProcessRamp);
     setMoldDryTemp(newMoldDryTemp);
+    setUnloadTemp(newUnloadTemp);
+    setCrashRate(newCrashRate);
+    setLogTolerance(convertRateField(logTolerance));
+    if (firingLog) {
+      setFiringLog(firingLog.map(p => ({ ...p, temp: newUnits === 'metric' ? toC(p.temp) : toF(p.temp) })));
+    }
+
+    const newProgramStages = programStages.map(st => ({
+      ...st,
+      target: convertTempField(st.target),
+      rate: convertRateField(st.rate)
+    }));
+    setProgramStages(newProgramStages);
+
+    // Area Conversion (in² <-> cm²)
+    let newSqueezeArea = squeezeArea;
+    const areaVal = parseFloat(squeezeArea);
+    if (!isNaN(areaVal)) {
+      newSqueezeArea = Math.round(newUnits === 'metric' ? areaVal * 6.4516 : areaVal / 6.4516).toString();
+      setSqueezeArea(newSqueezeArea);
+    }
+
+    // Length Conversion (in <-> cm)
+    const convertLengthField = (valStr: string) => {
+      const v = parseFloat(valStr);
+      if (isNaN(v)) return valStr;
+      return newUnits === 'metric' ? (v * 2.54).toFixed(1) : (v / 2.54).toFixed(2);
+    };
+    const newLengths = {
+      pieceLength: convertLengthField(pieceLength),
+      pieceWidth: convertLengthField(pieceWidth),
+      kilnFloorLength: convertLengthField(kilnFloorLength),
+      kilnFloorWidth: convertLengthField(kilnFloorWidth),
+      edgeGap: convertLengthField(edgeGap)
+    };
+    setPieceLength(newLengths.pieceLength);
+    setPieceWidth(newLengths.pieceWidth);
+    setKilnFloorLength(newLengths.kilnFloorLength);
+    setKilnFloorWidth(newLengths.kilnFloorWidth);
+    setEdgeGap(newLengths.edgeGap);
 
 
     // 4. Re-Calculate Result immediately if we have a result
     // We must use the NEW values, not the state variables (which are stale in this closure)
     if (result) {
-      const thickVal = parseFloat(newThickness);
-      if (isNaN(thickVal)) return;
-
-      let cAnneal = undefined;
-      let cStrain = undefined;
-      let cProcessTemp = undefined;
-      let cProcessHold = undefined;
-      let cProcessRamp = undefined; // Time is time, no conversion needed
-      let cMoldDryHours = undefined;
-      let cMoldDryTemp = undefined;
-
-      // Re-construct the logic from handleCalculate but with new values
-      if (glassType === "Custom") {
-        cAnneal = parseFloat(newCustomAnneal);
-        cStrain = parseFloat(newCustomStrain);
-      } else {
-        if (newCustomAnneal) cAnneal = parseFloat(newCustomAnneal);
-        if (newCustomStrain) cStrain = parseFloat(newCustomStrain);
-      }
-
-      if (scheduleMode !== "anneal_only") {
-        if (newProcessTemp) cProcessTemp = parseFloat(newProcessTemp);
-        if (processHold) cProcessHold = parseFloat(processHold);
-        if (newProcessRamp) cProcessRamp = parseFloat(newProcessRamp);
-
-        if (scheduleMode === 'cast' && moldDryHours) {
-          cMoldDryHours = parseFloat(moldDryHours);
-          if (newMoldDryTemp) cMoldDryTemp = parseFloat(newMoldDryTemp);
-        }
-      }
+      const { request, stages } = buildRequest({
+        ...currentInputs(),
+        units: newUnits,
+        thickness: newThickness,
+        layers: newLayers,
+        customAnneal: newCustomAnneal,
+        customStrain: newCustomStrain,
+        processTemp: newProcessTemp,
+        processRamp: newProcessRamp,
+        moldDryTemp: newMoldDryTemp,
+        squeezeArea: newSqueezeArea,
+        programStages: newProgramStages,
+        unloadTemp: newUnloadTemp,
+        crashRate: newCrashRate,
+        ...newLengths
+      });
+      showSchedule(calculateSchedule(request), stages, request);
+    }
+  };
 
-      const res = calculateSchedule(
-        glassType,
-        thickVal,
-        scheduleMode,
-        newUnits,
-        shape,
-        conservativeness,
-        cAnneal,
-        cStrain,
-        cProcessTemp,
-        cProcessHold,
-        cProcessRamp,
-        cMoldDryHours,
-        cMoldDryTemp,
-        processHoldIndefinite
-      );
-      setResult(res);
-      setChartVersion(v => v + 1);
+  // Shows a fresh schedule, or its errors beside the inputs. A program stage that
+  // didn't parse takes the place of the engine's own stage check.
+  const showSchedule = (res: ScheduleResult, stages: ProgramStage[] | string, request: ScheduleRequest): boolean => {
+    const found: ScheduleIssue[] = typeof stages === 'string'
+      ? [...res.issues.filter(i => i.field !== 'stages'), { severity: 'error', field: 'stages', message: stages }]
+      : res.issues;
+    setIssues(found);
+    if (found.some(i => i.severity === 'error')) {
+      setResult(null);
+      return false;
     }
+    setResult(res);
+    setResultPiece(pieceOf(request, scheduleGlassName));
+    setChartVersion(v => v + 1);
+    return true;
   };
 
 
   const handleCalculate = () => {
-    const thickVal = parseFloat(thickness);
-    if (isNaN(thickVal)) {
-      alert("Please enter a valid thickness.");
-      return;
-    }
+    const { request, stages } = buildRequest(currentInputs());
+    if (showSchedule(calculateSchedule(request), stages, request)) window.history.replaceState(null, '', permalink());
+  };
 
-    let cAnneal = undefined;
-    let cStrain = undefined;
-    let cProcessTemp = undefined;
-    let cProcessHold = undefined;
-    let cProcessRamp = undefined;
-    let cMoldDryHours = undefined;
-    let cMoldDryTemp = undefined;
-
-    if (glassType === "Custom") {
-      cAnneal = parseFloat(customAnneal);
-      cStrain = parseFloat(customStrain);
-      if (isNaN(cAnneal) || isNaN(cStrain)) {
-        alert("Please enter valid Custom Temperatures.");
-        return;
-      }
-    } else {
-      // Allow overrides even for standard glass if user entered something
-      if (customAnneal) cAnneal = parseFloat(customAnneal);
-      if (customStrain) cStrain = parseFloat(customStrain);
-    }
+  // Opening a shared link generates its schedule straight away. The form starts out
+  // holding the link's inputs, so this only has to run once, after the first render.
+  useEffect(() => {
+    if (linked) handleCalculate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-    if (scheduleMode !== "anneal_only") {
-      if (processTemp) cProcessTemp = parseFloat(processTemp);
-      if (processHold) cProcessHold = parseFloat(processHold);
-      if (processRamp) cProcessRamp = parseFloat(processRamp);
+  const toggleController = (id: ControllerId) => {
+    setSelectedControllers(prev => prev.includes(id)
+      ? prev.filter(c => c !== id)
+      : (Object.keys(CONTROLLERS) as ControllerId[]).filter(c => c === id || prev.includes(c)));
+  };
 
-      if (scheduleMode === 'cast' && moldDryHours) {
-        cMoldDryHours = parseFloat(moldDryHours);
-        if (moldDryTemp) cMoldDryTemp = parseFloat(moldDryTemp);
-      }
-    }
+  const openPlanner = () => {
+    const thickVal = compatibility ? compatibility.total_thickness : parseFloat(thickness);
+    const found: ScheduleIssue[] = [];
+    if (!(thickVal > 0)) found.push({ severity: 'error', field: 'thickness', message: "Thickness must be more than zero." });
+    if (needsCustomTemps && isNaN(parseFloat(customAnneal))) found.push({ severity: 'error', field: 'anneal_temp', message: "This glass has no known anneal temperature; enter one." });
+    if (needsCustomTemps && isNaN(parseFloat(customStrain))) found.push({ severity: 'error', field: 'strain_point', message: "This glass has no known strain point; enter one." });
+    setIssues(found);
+    if (found.length === 0) setShowPlanner(true);
+  };
 
-    const res = calculateSchedule(
-      glassType,
-      thickVal,
-      scheduleMode,
-      units,
-      shape,
-      conservativeness,
-      cAnneal,
-      cStrain,
-      cProcessTemp,
-      cProcessHold,
-      cProcessRamp,
-      cMoldDryHours,
-      cMoldDryTemp,
-      processHoldIndefinite
-    );
-    setResult(res);
-    setChartVersion(v => v + 1);
+  // The audit grades against the anneal the model gives the piece on the form; custom
+  // programs have no recommendation of their own, so they're judged as a plain anneal
+  const openAudit = () => {
+    const { request } = buildRequest(currentInputs());
+    setAuditTarget({
+      recommended: calculateSchedule({ ...request, mode: scheduleMode === 'custom' ? 'anneal_only' : scheduleMode }),
+      glassName: scheduleGlassName,
+    });
   };
 
   const handleShare = async () => {
     if (!result) return;
 
-    const text = `Annealing Schedule for ${glassType} (${thickness} ${units === 'metric' ? 'cm' : 'in'})
-
-PARAGON SENTRY:
-${result.paragon_instructions}
+    const text = `Annealing Schedule for ${scheduleGlassName} (${thickness} ${units === 'metric' ? 'cm' : 'in'})` +
+      selectedControllers.map(id => `
 
-DIGITRY GB4/5:
-${result.digitry_instructions}`;
+${CONTROLLERS[id].name.toUpperCase()}:
+${formatForController(result, id)}`).join('');
 
     const shareData = {
       title: 'Glass Annealing Schedule',
       text: text,
-      url: window.location.href
+      url: permalink()
     };
 
     try {
       if (navigator.share) {
         await navigator.share(shareData);
       } else {
-        await navigator.clipboard.writeText(text);
+        await navigator.clipboard.writeText(`${text}\n\nOpen in the calculator: ${shareData.url}`);
         alert("Schedule copied to clipboard!");
       }
     } catch (err) {
@@ -248,15 +618,45 @@ ${result.digitry_instructions}`;
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1.5rem' }}>
 
           <div>
-            <label>Glass Type</label>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.25rem' }}>
+              <label style={{ margin: 0 }}>Glass Type</label>
+              <button
+                onClick={() => setShowGlassLibrary(true)}
+                style={{ width: 'auto', padding: '2px 8px', background: 'transparent', border: '1px solid #334155', borderRadius: '12px', fontSize: '0.75rem', color: '#94a3b8', display: 'flex', alignItems: 'center', gap: '4px' }}
+                title="Add, edit, import or export glass profiles"
+              >
+                <Library size={12} />
+                Manage
+              </button>
+            </div>
             <select
-              value={glassType}
-              onChange={(e) => setGlassType(e.target.value as GlassType)}
+              value={selectedGlass.id}
+              onChange={(e) => setGlassId(e.target.value)}
+              disabled={multiGlass}
             >
-              {Object.keys(GLASS_LIBRARY).map((key) => (
-                <option key={key} value={key}>{key}</option>
-              ))}
+              {glassOptions}
             </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '0.75rem', cursor: 'pointer', fontWeight: 'normal', margin: '0.5rem 0 0' }}>
+              <input
+                type="checkbox"
+                checked={multiGlass}
+                onChange={(e) => toggleMultiGlass(e.target.checked)}
+                style={{ width: 'auto', margin: 0 }}
+              />
+              Several glasses in this piece
+            </label>
+            {linkGlasses.length > 0 && (
+              <small style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap', color: '#94a3b8', marginTop: '0.5rem' }}>
+                From the link, not saved: {linkGlasses.map(g => g.name).join(', ')}
+                <button
+                  onClick={keepLinkGlasses}
+                  style={{ width: 'auto', padding: '2px 8px', background: 'transparent', border: '1px solid #334155', borderRadius: '12px', fontSize: '0.75rem', color: '#94a3b8' }}
+                  title="Add these glasses to My Glasses"
+                >
+                  Keep
+                </button>
+              </small>
+            )}
           </div>
 
           <div>
@@ -270,6 +670,7 @@ ${result.digitry_instructions}`;
               <option value="tack_fuse">Tack Fuse</option>
               <option value="full_fuse">Full Fuse</option>
               <option value="cast">Cast</option>
+              <option value="custom">Custom Program</option>
             </select>
           </div>
 
@@ -300,19 +701,99 @@ ${result.digitry_instructions}`;
               </button>
             </div>
             <div className="relative">
-              <input
-                type="number"
-                value={thickness}
-                onChange={(e) => setThickness(e.target.value)}
-                placeholder={units === 'metric' ? "e.g. 0.6" : "e.g. 0.25"}
-                min="0.01"
-                step="0.01"
-              />
+              {compatibility ? (
+                <>
+                  <input
+                    type="text"
+                    disabled
+                    value={compatibility.total_thickness.toFixed(units === 'metric' ? 2 : 3)}
+                    style={{ cursor: 'not-allowed', color: '#666', borderColor: '#444' }}
+                  />
+                  <small style={{ color: '#888' }}>Sum of glass layers</small>
+                  <FieldIssues issues={issues} field="thickness" />
+                </>
+              ) : (
+                <>
+                  <input
+                    type="number"
+                    value={thickness}
+                    onChange={(e) => setThickness(e.target.value)}
+                    placeholder={units === 'metric' ? "e.g. 0.6" : "e.g. 0.25"}
+                    min="0.01"
+                    step="0.01"
+                  />
+                  <button
+                    onClick={() => setShowCasting(true)}
+                    style={{ width: 'auto', padding: 0, marginTop: '0.25rem', background: 'transparent', border: 'none', color: '#60a5fa', fontSize: '0.75rem' }}
+                    title="Estimate the thickness of a casting from its mold volume or glass weight"
+                  >
+                    From volume / weight
+                  </button>
+                  <FieldIssues issues={issues} field="thickness" />
+                </>
+              )}
             </div>
           </div>
 
         </div>
 
+        {/* Multi-Glass Layers */}
+        {multiGlass && (
+          <div style={{ marginTop: '1.5rem', borderTop: '1px solid #333', paddingTop: '1rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+              <Layers className="text-gray-400" size={18} />
+              <h3 style={{ margin: 0, fontSize: '1rem' }}>Glasses in Piece</h3>
+            </div>
+            {layers.map((layer, i) => (
+              <div key={i} style={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: '1rem', marginBottom: '0.75rem', alignItems: 'center' }}>
+                <select value={layer.glassId} onChange={(e) => updateLayer(i, { glassId: e.target.value })}>
+                  {glassOptions}
+                </select>
+                <input
+                  type="number"
+                  value={layer.thickness}
+                  onChange={(e) => updateLayer(i, { thickness: e.target.value })}
+                  placeholder={`Layer (${units === 'metric' ? 'cm' : 'in'})`}
+                  min="0.01"
+                  step="0.01"
+                />
+                <button
+                  onClick={() => setLayers(layers.filter((_, j) => j !== i))}
+                  disabled={layers.length === 1}
+                  style={{ width: 'auto', padding: '0.5rem', background: 'transparent', border: '1px solid #334155', color: '#94a3b8' }}
+                  title="Remove glass"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setLayers([...layers, { glassId: layers[layers.length - 1]?.glassId ?? selectedGlass.id, thickness: "" }])}
+              style={{ width: 'auto', padding: '4px 12px', background: 'transparent', border: '1px solid #334155', color: '#94a3b8', fontSize: '0.8rem', display: 'flex', alignItems: 'center', gap: '4px' }}
+            >
+              <Plus size={14} /> Add Glass
+            </button>
+            {compatibility && compatibility.warnings.length > 0 && (
+              <div style={{
+                marginTop: '1rem',
+                padding: '0.75rem 1rem',
+                borderRadius: '0.5rem',
+                background: compatibility.compatible ? 'rgba(234, 179, 8, 0.1)' : 'rgba(248, 113, 113, 0.15)',
+                border: compatibility.compatible ? '1px solid rgba(234, 179, 8, 0.4)' : '2px solid #f87171',
+                color: compatibility.compatible ? '#eab308' : '#f87171',
+                fontSize: '0.875rem',
+              }}>
+                {compatibility.warnings.map((w, i) => (
+                  <div key={i} style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-start', fontWeight: compatibility.compatible ? 'normal' : 700 }}>
+                    <AlertTriangle size={16} style={{ flexShrink: 0, marginTop: '2px' }} />
+                    {w}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Physics Controls Row */}
         <div style={{ marginTop: '1.5rem', display: 'flex', gap: '1.5rem', flexWrap: 'wrap' }}>
 
@@ -357,8 +838,20 @@ ${result.digitry_instructions}`;
 
         </div>
 
+        {/* Custom Program Stages */}
+        {scheduleMode === "custom" && (
+          <div style={{ marginTop: '1.5rem', borderTop: '1px solid #333', paddingTop: '1rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+              <Settings className="text-gray-400" size={18} />
+              <h3 style={{ margin: 0, fontSize: '1rem' }}>Program Stages</h3>
+            </div>
+            <ProgramStagesEditor stages={programStages} units={units} onChange={setProgramStages} />
+            <FieldIssues issues={issues} field="stages" />
+          </div>
+        )}
+
         {/* Process Settings (if not anneal only) */}
-        {scheduleMode !== "anneal_only" && (
+        {scheduleMode !== "anneal_only" && scheduleMode !== "custom" && (
           <div style={{ marginTop: '1.5rem', borderTop: '1px solid #333', paddingTop: '1rem' }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
               <Settings className="text-gray-400" size={18} />
@@ -376,6 +869,7 @@ ${result.digitry_instructions}`;
                       placeholder={units === 'metric' ? "121" : "250"}
                     />
                     <small style={{ color: '#888' }}>Default = {units === 'metric' ? "121" : "250"}</small>
+                    <FieldIssues issues={issues} field="mold_dry_temp" />
                   </div>
                   <div>
                     <label>Mold Dry (Hours)</label>
@@ -387,6 +881,7 @@ ${result.digitry_instructions}`;
                       max="72"
                     />
                     <small style={{ color: '#888' }}>At Dry Temp</small>
+                    <FieldIssues issues={issues} field="mold_dry_hours" />
                   </div>
                 </>
               )}
@@ -399,7 +894,8 @@ ${result.digitry_instructions}`;
                   onChange={(e) => setProcessRamp(e.target.value)}
                   placeholder="Default (Auto)"
                 />
-                <small style={{ color: '#888' }}>Empty = Auto</small>
+                <small style={{ color: '#888' }}>Empty = Auto (3 rates)</small>
+                <FieldIssues issues={issues} field="process_ramp" />
               </div>
 
               <div>
@@ -411,6 +907,7 @@ ${result.digitry_instructions}`;
                   placeholder="Default (Auto)"
                 />
                 <small style={{ color: '#888' }}>Empty = Auto</small>
+                <FieldIssues issues={issues} field="process_temp" />
               </div>
 
               <div>
@@ -435,6 +932,7 @@ ${result.digitry_instructions}`;
                       placeholder="Default (Auto)"
                     />
                     <small style={{ color: '#888' }}>Minutes</small>
+                    <FieldIssues issues={issues} field="process_hold_minutes" />
                   </>
                 ) : (
                   <>
@@ -449,11 +947,52 @@ ${result.digitry_instructions}`;
                 )}
               </div>
             </div>
+
+            {squeezeModes.includes(scheduleMode) && (
+              <div style={{ marginTop: '1rem' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '0.875rem', cursor: 'pointer', margin: 0 }}>
+                  <input
+                    type="checkbox"
+                    checked={bubbleSqueeze}
+                    onChange={(e) => setBubbleSqueeze(e.target.checked)}
+                    style={{ width: 'auto', margin: 0 }}
+                  />
+                  Bubble Squeeze
+                </label>
+                {bubbleSqueeze && (
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginTop: '0.75rem' }}>
+                    <div>
+                      <label>Layers</label>
+                      <input
+                        type="number"
+                        value={squeezeLayers}
+                        onChange={(e) => setSqueezeLayers(e.target.value)}
+                        placeholder={multiGlass ? `${layers.length}` : "2"}
+                        min="1"
+                      />
+                      <small style={{ color: '#888' }}>Stacked layers</small>
+                    </div>
+                    <div>
+                      <label>Area ({units === 'metric' ? 'cm²' : 'in²'})</label>
+                      <input
+                        type="number"
+                        value={squeezeArea}
+                        onChange={(e) => setSqueezeArea(e.target.value)}
+                        placeholder={units === 'metric' ? "e.g. 929" : "e.g. 144"}
+                        min="0"
+                      />
+                      <small style={{ color: '#888' }}>Footprint of the piece</small>
+                    </div>
+                  </div>
+                )}
+                {bubbleSqueeze && <FieldIssues issues={issues} field="bubble_squeeze" />}
+              </div>
+            )}
           </div>
         )}
 
         {/* Custom Glass Settings */}
-        {(glassType === "Custom" || customAnneal || customStrain) && (
+        {(needsCustomTemps || customAnneal || customStrain) && (
           <div style={{ marginTop: '1.5rem', borderTop: '1px solid #333', paddingTop: '1rem' }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
               <Settings className="text-gray-400" size={18} />
@@ -466,12 +1005,13 @@ ${result.digitry_instructions}`;
                   type="number"
                   value={customAnneal}
                   onChange={(e) => setCustomAnneal(e.target.value)}
-                  placeholder={glassType !== "Custom" ?
+                  placeholder={scheduleGlass.anneal_temp !== null ?
                     (units === 'metric'
-                      ? `${Math.round((GLASS_LIBRARY[glassType].anneal_temp! - 32) * 5 / 9)}`
-                      : `${GLASS_LIBRARY[glassType].anneal_temp}`)
+                      ? `${Math.round((scheduleGlass.anneal_temp - 32) * 5 / 9)}`
+                      : `${scheduleGlass.anneal_temp}`)
                     : ""}
                 />
+                <FieldIssues issues={issues} field="anneal_temp" />
               </div>
               <div>
                 <label>Strain Point ({units === 'metric' ? '°C' : '°F'})</label>
@@ -479,22 +1019,171 @@ ${result.digitry_instructions}`;
                   type="number"
                   value={customStrain}
                   onChange={(e) => setCustomStrain(e.target.value)}
-                  placeholder={glassType !== "Custom" ?
+                  placeholder={scheduleGlass.strain_point !== null ?
                     (units === 'metric'
-                      ? `${Math.round((GLASS_LIBRARY[glassType].strain_point! - 32) * 5 / 9)}`
-                      : `${GLASS_LIBRARY[glassType].strain_point}`)
+                      ? `${Math.round((scheduleGlass.strain_point - 32) * 5 / 9)}`
+                      : `${scheduleGlass.strain_point}`)
                     : ""}
                 />
+                <FieldIssues issues={issues} field="strain_point" />
               </div>
             </div>
           </div>
         )}
 
-        <div style={{ marginTop: '2rem' }}>
+        {/* Piece Size & Placement */}
+        <div style={{ marginTop: '1.5rem', borderTop: '1px solid #333', paddingTop: '1rem' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+            <Ruler className="text-gray-400" size={18} />
+            <h3 style={{ margin: 0, fontSize: '1rem' }}>Piece Size & Placement</h3>
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: '1.5rem' }}>
+            <div>
+              <label>Piece Length ({units === 'metric' ? 'cm' : 'in'})</label>
+              <input type="number" value={pieceLength} onChange={(e) => setPieceLength(e.target.value)} placeholder="Optional" />
+              <small style={{ color: '#888' }}>Or diameter</small>
+            </div>
+            <div>
+              <label>Piece Width ({units === 'metric' ? 'cm' : 'in'})</label>
+              <input type="number" value={pieceWidth} onChange={(e) => setPieceWidth(e.target.value)} placeholder="Round" />
+            </div>
+            <div>
+              <label>Kiln Floor Length ({units === 'metric' ? 'cm' : 'in'})</label>
+              <input type="number" value={kilnFloorLength} onChange={(e) => setKilnFloorLength(e.target.value)} placeholder="Optional" />
+              <small style={{ color: '#888' }}>Or diameter</small>
+            </div>
+            <div>
+              <label>Kiln Floor Width ({units === 'metric' ? 'cm' : 'in'})</label>
+              <input type="number" value={kilnFloorWidth} onChange={(e) => setKilnFloorWidth(e.target.value)} placeholder="Round" />
+            </div>
+            <div>
+              <label>Gap to Wall ({units === 'metric' ? 'cm' : 'in'})</label>
+              <input type="number" value={edgeGap} onChange={(e) => setEdgeGap(e.target.value)} placeholder="Centered" />
+              <small style={{ color: '#888' }}>Closest edge to walls or elements</small>
+            </div>
+          </div>
+          <FieldIssues issues={issues} field="placement" />
+        </div>
+
+        {/* Kiln & Cool Down */}
+        <div style={{ marginTop: '1.5rem', borderTop: '1px solid #333', paddingTop: '1rem' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+            <ThermometerSnowflake className="text-blue-400" size={18} />
+            <h3 style={{ margin: 0, fontSize: '1rem' }}>Kiln & Cool Down</h3>
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: '1.5rem' }}>
+            <div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.25rem' }}>
+                <label style={{ margin: 0 }}>Kiln</label>
+                <button
+                  onClick={() => setShowKilnProfiles(true)}
+                  style={{ width: 'auto', padding: '2px 8px', background: 'transparent', border: '1px solid #334155', borderRadius: '12px', fontSize: '0.75rem', color: '#94a3b8', display: 'flex', alignItems: 'center', gap: '4px' }}
+                  title="Add or edit kiln profiles"
+                >
+                  <Settings size={12} />
+                  Manage
+                </button>
+              </div>
+              <select value={selectedKiln ? kilnId : ""} onChange={(e) => setKilnId(e.target.value)}>
+                <option value="">Ideal Kiln (no limits)</option>
+                {kilnProfiles.map(k => (
+                  <option key={k.id} value={k.id}>{k.name}</option>
+                ))}
+              </select>
+              <FieldIssues issues={issues} field="kiln" />
+            </div>
+            <div>
+              <label>Unload Temp ({units === 'metric' ? '°C' : '°F'})</label>
+              <input
+                type="number"
+                value={unloadTemp}
+                onChange={(e) => setUnloadTemp(e.target.value)}
+                placeholder={units === 'metric' ? "66" : "150"}
+              />
+              <small style={{ color: '#888' }}>Safe to open the kiln</small>
+              <FieldIssues issues={issues} field="unload_temp" />
+            </div>
+            {scheduleMode !== 'anneal_only' && (
+              <>
+                <div>
+                  <label>Cool to Anneal</label>
+                  <select value={crashCool} onChange={(e) => setCrashCool(e.target.value as CrashCool)}>
+                    <option value="afap">As Fast As Possible</option>
+                    <option value="rate">Set Rate</option>
+                    <option value="natural">Natural Kiln Cooling</option>
+                  </select>
+                  <small style={{ color: '#888' }}>From process temp</small>
+                </div>
+                {crashCool === 'rate' && (
+                  <div>
+                    <label>Rate ({units === 'metric' ? '°C/hr' : '°F/hr'})</label>
+                    <input
+                      type="number"
+                      value={crashRate}
+                      onChange={(e) => setCrashRate(e.target.value)}
+                      placeholder={units === 'metric' ? "e.g. 300" : "e.g. 500"}
+                    />
+                    <FieldIssues issues={issues} field="crash_rate" />
+                  </div>
+                )}
+                <div style={{ display: 'flex', alignItems: 'center' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer', margin: 0 }}>
+                    <input
+                      type="checkbox"
+                      checked={ventLid}
+                      onChange={(e) => setVentLid(e.target.checked)}
+                      style={{ width: 'auto', margin: 0 }}
+                    />
+                    Vent / crack lid
+                  </label>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div style={{ marginTop: '2rem', display: 'flex', gap: '1rem' }}>
           <button onClick={handleCalculate}>
             Generate Schedule
           </button>
+          <button
+            onClick={openPlanner}
+            style={{ background: '#334155', width: 'auto', display: 'flex', alignItems: 'center', gap: '8px', whiteSpace: 'nowrap' }}
+            title="Chain several firings of the same piece"
+          >
+            <ListOrdered size={18} />
+            Plan Project
+          </button>
+          <button
+            onClick={() => setShowNotebook(true)}
+            style={{ background: '#334155', width: 'auto', display: 'flex', alignItems: 'center', gap: '8px', whiteSpace: 'nowrap' }}
+            title="Saved schedules and firing outcomes"
+          >
+            <BookOpen size={18} />
+            Notebook
+          </button>
+          <button
+            onClick={() => setShowBatch(true)}
+            style={{ background: '#334155', width: 'auto', display: 'flex', alignItems: 'center', gap: '8px', whiteSpace: 'nowrap' }}
+            title="Tabulate schedules across thicknesses, glasses and shapes"
+          >
+            <Table size={18} />
+            Schedule Chart
+          </button>
+          <button
+            onClick={openAudit}
+            style={{ background: '#334155', width: 'auto', display: 'flex', alignItems: 'center', gap: '8px', whiteSpace: 'nowrap' }}
+            title="Check a program you already fire against the model"
+          >
+            <ClipboardCheck size={18} />
+            Audit Program
+          </button>
         </div>
+        {issues.some(i => i.severity === 'error') && (
+          <p style={{ color: '#f87171', fontSize: '0.875rem', marginBottom: 0, display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <AlertTriangle size={16} /> Fix the inputs marked above to generate a schedule.
+          </p>
+        )}
       </div>
 
       {result && (
@@ -505,32 +1194,149 @@ ${result.digitry_instructions}`;
               <Activity className="text-blue-400" size={24} />
               <h2 style={{ margin: 0 }}>Firing Profile</h2>
             </div>
-            <AnnealingChart key={chartVersion} points={result.points} units={units} />
+            <AnnealingChart
+              key={chartVersion}
+              points={result.points}
+              units={units}
+              actual={firingLog ?? undefined}
+              outliers={logComparison?.outliers}
+              heatFlow={simulation?.samples}
+            />
+            {result.segments.some(seg => seg.kiln_warning) && (
+              <div style={{
+                marginTop: '1rem',
+                padding: '0.75rem 1rem',
+                borderRadius: '0.5rem',
+                background: 'rgba(234, 179, 8, 0.1)',
+                border: '1px solid rgba(234, 179, 8, 0.4)',
+                color: '#eab308',
+                fontSize: '0.875rem',
+              }}>
+                {result.segments.map((seg, i) => seg.kiln_warning && (
+                  <div key={i} style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-start' }}>
+                    <AlertTriangle size={16} style={{ flexShrink: 0, marginTop: '2px' }} />
+                    {seg.label}: {seg.kiln_warning}
+                  </div>
+                ))}
+              </div>
+            )}
+            <FiringLogPanel
+              units={units}
+              comparison={logComparison}
+              tolerance={logTolerance}
+              onToleranceChange={setLogTolerance}
+              onLoad={setFiringLog}
+            />
+            {resultPiece && <ThermalSimulationPanel
+              input={{
+                result,
+                thickness: resultPiece.thickness,
+                shape: resultPiece.shape,
+                coe: resultPiece.coe,
+                density: resultPiece.density,
+              }}
+              simulation={simulation}
+              onResult={(sim) => setHeatFlow(sim && { result, simulation: sim })}
+            />}
           </div>
 
-          {/* Paragon Output */}
-          <div className="card">
-            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
-              <Flame className="text-orange-500" size={24} />
-              <h2 style={{ margin: 0 }}>Paragon Sentry</h2>
+          {/* Comparison */}
+          {compared.length > 0 && (
+            <div className="full-width card">
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+                <GitCompare className="text-blue-400" size={24} />
+                <h2 style={{ margin: 0 }}>Comparison</h2>
+                {compared.length < 2 && (
+                  <small style={{ marginLeft: 'auto', color: '#64748b' }}>Change the inputs, generate, and add another schedule to compare.</small>
+                )}
+              </div>
+              <ComparisonPanel
+                schedules={compared}
+                units={units}
+                onRemove={(index) => setCompared(compared.filter((_, i) => i !== index))}
+                onClear={() => setCompared([])}
+              />
             </div>
-            <pre className="instruction-text">
-              {result.paragon_instructions}
-            </pre>
+          )}
+
+          {/* Controller Picker */}
+          <div className="full-width" style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+            <label style={{ margin: 0, marginRight: '0.5rem' }}>Controllers</label>
+            {(Object.keys(CONTROLLERS) as ControllerId[]).map((id) => {
+              const selected = selectedControllers.includes(id);
+              return (
+                <button
+                  key={id}
+                  onClick={() => toggleController(id)}
+                  style={{
+                    width: 'auto',
+                    padding: '4px 12px',
+                    borderRadius: '12px',
+                    fontSize: '0.8rem',
+                    background: selected ? 'rgba(96, 165, 250, 0.15)' : 'transparent',
+                    border: selected ? '1px solid rgba(96, 165, 250, 0.5)' : '1px solid #334155',
+                    color: selected ? '#60a5fa' : '#94a3b8',
+                  }}
+                >
+                  {CONTROLLERS[id].name}
+                </button>
+              );
+            })}
           </div>
 
-          {/* Digitry Output */}
-          <div className="card">
-            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
-              <ThermometerSnowflake className="text-cyan-400" size={24} />
-              <h2 style={{ margin: 0 }}>Digitry GB4/5</h2>
+          {/* Controller Outputs */}
+          {selectedControllers.map((id) => (
+            <div className="card" key={id}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+                {CONTROLLERS[id].style === 'cumulative'
+                  ? <ThermometerSnowflake className="text-cyan-400" size={24} />
+                  : <Flame className="text-orange-500" size={24} />}
+                <h2 style={{ margin: 0 }}>{CONTROLLERS[id].name}</h2>
+                {fitToController(result, id).issues.length > 0 && (
+                  <div title="This program exceeds the controller's limits" style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '4px', color: '#f87171', fontSize: '0.8rem' }}>
+                    <AlertTriangle size={16} />
+                    Won't fit
+                  </div>
+                )}
+              </div>
+              <pre className="instruction-text">
+                {formatForController(result, id)}
+              </pre>
             </div>
-            <pre className="instruction-text">
-              {result.digitry_instructions}
-            </pre>
-          </div>
-          {/* Share Button */}
-          <div className="full-width" style={{ marginTop: '1rem', display: 'flex', justifyContent: 'center' }}>
+          ))}
+
+          {/* Save & Share Buttons */}
+          <div className="full-width" style={{ marginTop: '1rem', display: 'flex', justifyContent: 'center', gap: '1rem' }}>
+            <button
+              onClick={handleSaveToNotebook}
+              style={{
+                background: '#334155', // Slate 700
+                maxWidth: '300px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '8px'
+              }}
+            >
+              <Save size={18} />
+              Save to Notebook
+            </button>
+            <button
+              onClick={addToComparison}
+              disabled={compared.length >= MAX_COMPARED}
+              title={compared.length >= MAX_COMPARED ? `Up to ${MAX_COMPARED} schedules can be compared` : "Overlay this schedule with others"}
+              style={{
+                background: '#334155', // Slate 700
+                maxWidth: '300px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '8px'
+              }}
+            >
+              <GitCompare size={18} />
+              Add to Comparison ({compared.length}/{MAX_COMPARED})
+            </button>
             <button
               onClick={handleShare}
               style={{
@@ -545,6 +1351,20 @@ ${result.digitry_instructions}`;
               <Share2 size={18} />
               Share Schedule
             </button>
+            <button
+              onClick={() => setShowSheet(true)}
+              style={{
+                background: '#334155', // Slate 700
+                maxWidth: '300px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '8px'
+              }}
+            >
+              <Printer size={18} />
+              Kiln Sheet
+            </button>
           </div>
         </div>
       )}
@@ -628,6 +1448,108 @@ ${result.digitry_instructions}`;
         </div>
       )}
 
+      {showGlassLibrary && (
+        <GlassLibraryManager
+          units={units}
+          userGlasses={userGlasses}
+          onChange={updateUserGlasses}
+          onSelect={setGlassId}
+          onClose={() => setShowGlassLibrary(false)}
+        />
+      )}
+
+      {showKilnProfiles && (
+        <KilnProfileManager
+          units={units}
+          profiles={kilnProfiles}
+          onChange={updateKilnProfiles}
+          onSelect={setKilnId}
+          onClose={() => setShowKilnProfiles(false)}
+        />
+      )}
+
+      {showNotebook && (
+        <NotebookManager
+          entries={notebook}
+          onChange={updateNotebook}
+          onOpen={openNotebookEntry}
+          onClose={() => setShowNotebook(false)}
+        />
+      )}
+
+      {showCasting && (
+        <CastingEstimator
+          units={units}
+          glass={scheduleGlass}
+          glassName={scheduleGlassName}
+          onApply={(t, uneven) => {
+            setThickness(t.toFixed(units === 'metric' ? 2 : 3));
+            if (uneven && shape === 'slab') setShape('uneven');
+            setShowCasting(false);
+          }}
+          onClose={() => setShowCasting(false)}
+        />
+      )}
+
+      {showSheet && result && resultPiece && (
+        <KilnSheetView
+          result={result}
+          glassName={resultPiece.glassName}
+          thickness={formatThickness(resultPiece.thickness, result.units)}
+          shape={resultPiece.shape}
+          conservativeness={resultPiece.conservativeness}
+          mode={resultPiece.mode}
+          initialController={selectedControllers[0] ?? DEFAULT_CONTROLLERS[0]}
+          onClose={() => setShowSheet(false)}
+        />
+      )}
+
+      {showBatch && (
+        <BatchGenerator
+          glasses={[...BUILT_IN_GLASSES, ...userGlasses, ...linkGlasses]}
+          initialGlassId={selectedGlass.id}
+          initialUnits={units}
+          initialMode={scheduleMode}
+          initialConservativeness={conservativeness}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
+
+      {auditTarget && (
+        <ProgramAudit
+          recommended={auditTarget.recommended}
+          units={units}
+          glassName={auditTarget.glassName}
+          onClose={() => setAuditTarget(null)}
+        />
+      )}
+
+      {showPlanner && (
+        <ProjectPlanner
+          base={{
+            glass: scheduleGlass,
+            thickness: compatibility ? compatibility.total_thickness : parseFloat(thickness),
+            units,
+            shape,
+            conservativeness,
+            customAnneal: customAnneal ? parseFloat(customAnneal) : undefined,
+            customStrain: customStrain ? parseFloat(customStrain) : undefined,
+            cooling: buildCoolingOptions(unloadTemp, crashRate),
+            kiln: selectedKiln?.properties,
+            placement: buildPlacement(currentInputs()),
+          }}
+          glassName={scheduleGlassName}
+          onShowResult={(res, request) => {
+            setResult(res);
+            setResultPiece(pieceOf(request, scheduleGlassName));
+            setIssues(res.issues);
+            setChartVersion(v => v + 1);
+            setShowPlanner(false);
+          }}
+          onClose={() => setShowPlanner(false)}
+        />
+      )}
+
       {showAbout && (
         <div className="modal-overlay" onClick={() => setShowAbout(false)}>
           <div className="modal-content" onClick={e => e.stopPropagation()}>
@@ -1,13 +1,28 @@
 import React from 'react';
-import Plot from 'react-plotly.js';
+import { Plot } from './Plot';
 import type { AnnealingSchedulePoint } from '../lib/annealingLogic';
+import type { FiringLogPoint } from '../lib/firingLog';
+import type { ThermalSample } from '../lib/thermalSimulation';
 
 interface AnnealingChartProps {
     points: AnnealingSchedulePoint[];
     units: 'metric' | 'imperial';
+    actual?: FiringLogPoint[];   // Imported controller log, drawn over the plan
+    outliers?: FiringLogPoint[]; // Log readings off the plan by more than the tolerance
+    program?: AnnealingSchedulePoint[]; // A pasted controller program, drawn over the recommendation
+    heatFlow?: ThermalSample[];  // Simulated glass temperatures; the core-surface difference gets its own axis
+    theme?: 'screen' | 'print'; // "print" draws dark on white for paper
+    onReady?: (graphDiv: HTMLElement) => void; // The rendered plot, for image export
 }
 
-export const AnnealingChart: React.FC<AnnealingChartProps> = ({ points, units }) => {
+const THEMES = {
+    screen: { title: '#e2e8f0', text: '#94a3b8', grid: '#334155', zero: '#475569' },
+    print: { title: '#0f172a', text: '#334155', grid: '#cbd5e1', zero: '#94a3b8' },
+};
+
+export const AnnealingChart: React.FC<AnnealingChartProps> = ({ points, units, actual, outliers, program, heatFlow, theme = 'screen', onReady }) => {
+    const colors = THEMES[theme];
+
     // Dynamic Trace Generation Logic
     // We split the points into traces based on color.
     // Heat/Soak/Process = Red
@@ -26,6 +41,7 @@ export const AnnealingChart: React.FC<AnnealingChartProps> = ({ points, units })
     }
 
     const traces: any[] = [];
+    const hasHeatFlow = !!heatFlow && heatFlow.length > 0;
 
     if (points.length > 0) {
         let currentX = [points[0].time];
@@ -95,6 +111,57 @@ export const AnnealingChart: React.FC<AnnealingChartProps> = ({ points, units })
         // Push final trace
         pushTrace(currentX, currentY, currentIndices, currentColor, currentName);
 
+        if (actual && actual.length > 0) {
+            traces.push({
+                x: actual.map(p => p.time),
+                y: actual.map(p => p.temp),
+                type: 'scatter',
+                mode: 'lines',
+                name: 'Actual (Log)',
+                line: { color: '#22c55e', width: 2 }
+            });
+        }
+        if (program && program.length > 0) {
+            traces.push({
+                x: program.map(p => p.time),
+                y: program.map(p => p.temp),
+                type: 'scatter',
+                mode: 'lines+markers',
+                name: 'Your Program',
+                line: { color: '#a855f7', width: 2, dash: 'dash' },
+                marker: { color: '#a855f7', size: 6 }
+            });
+        }
+        if (heatFlow && heatFlow.length > 0) {
+            traces.push({
+                x: heatFlow.map(p => p.time),
+                y: heatFlow.map(p => p.core),
+                type: 'scatter',
+                mode: 'lines',
+                name: 'Glass Core',
+                line: { color: '#f472b6', width: 2, dash: 'dot' }
+            });
+            traces.push({
+                x: heatFlow.map(p => p.time),
+                y: heatFlow.map(p => p.core - p.surface),
+                type: 'scatter',
+                mode: 'lines',
+                name: 'Core - Surface',
+                yaxis: 'y2',
+                line: { color: '#2dd4bf', width: 1.5 }
+            });
+        }
+        if (outliers && outliers.length > 0) {
+            traces.push({
+                x: outliers.map(p => p.time),
+                y: outliers.map(p => p.temp),
+                type: 'scatter',
+                mode: 'markers',
+                name: 'Off Plan',
+                marker: { color: '#f97316', size: 6, symbol: 'x' }
+            });
+        }
+
         // Sort traces: Indefinite Hold (Yellow) MUST be last to render on top
         traces.sort((a, b) => {
             if (a.name === 'Indefinite Hold') return 1;
@@ -110,25 +177,35 @@ export const AnnealingChart: React.FC<AnnealingChartProps> = ({ points, units })
                 useResizeHandler={true}
                 data={traces}
                 layout={{
-                    title: { text: 'Firing & Annealing Schedule', font: { color: '#e2e8f0' } },
+                    title: { text: 'Firing & Annealing Schedule', font: { color: colors.title } },
                     paper_bgcolor: 'rgba(0,0,0,0)',
                     plot_bgcolor: 'rgba(0,0,0,0)',
-                    font: { color: '#94a3b8' },
+                    font: { color: colors.text },
                     xaxis: {
                         title: { text: 'Time (Hours)' },
-                        gridcolor: '#334155',
-                        zerolinecolor: '#475569'
+                        gridcolor: colors.grid,
+                        zerolinecolor: colors.zero
                     },
                     yaxis: {
                         title: { text: `Temperature (°${units === 'metric' ? 'C' : 'F'})` },
-                        gridcolor: '#334155',
-                        zerolinecolor: '#475569'
+                        gridcolor: colors.grid,
+                        zerolinecolor: colors.zero
                     },
-                    margin: { t: 50, r: 30, l: 60, b: 50 },
+                    ...(hasHeatFlow && {
+                        yaxis2: {
+                            title: { text: `Core - Surface (°${units === 'metric' ? 'C' : 'F'})` },
+                            overlaying: 'y',
+                            side: 'right',
+                            showgrid: false,
+                            zerolinecolor: colors.zero
+                        }
+                    }),
+                    margin: { t: 50, r: hasHeatFlow ? 60 : 30, l: 60, b: 50 },
                     showlegend: true,
                     legend: { orientation: 'h', y: -0.2 }
                 }}
                 config={{ responsive: true, displayModeBar: false }}
+                onInitialized={(_figure, graphDiv) => onReady?.(graphDiv)}
             />
         </div>
     );
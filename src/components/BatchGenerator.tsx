@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { Download, Printer, X } from 'lucide-react';
+import type { Conservativeness, ScheduleMode, ShapeFactor, UnitSystem } from '../lib/annealingLogic';
+import type { GlassProfile } from '../lib/glassLibrary';
+import {
+    BATCH_THICKNESS_PRESETS,
+    MAX_BATCH_ROWS,
+    SHAPE_LABELS,
+    batchToCsv,
+    batchToHtml,
+    generateBatch,
+    parseThicknesses,
+    rateText
+} from '../lib/batchSchedules';
+
+interface BatchGeneratorProps {
+    glasses: GlassProfile[];   // Every profile the calculator knows
+    initialGlassId: string;
+    initialUnits: UnitSystem;
+    initialMode: ScheduleMode;
+    initialConservativeness: Conservativeness;
+    onClose: () => void;
+}
+
+// Custom programs have no thickness-driven stages to tabulate
+type BatchMode = Exclude<ScheduleMode, "custom">;
+
+const MODE_LABELS: Record<BatchMode, string> = {
+    "anneal_only": "Anneal Only",
+    "tack_fuse": "Tack Fuse",
+    "full_fuse": "Full Fuse",
+    "slump": "Slump",
+    "cast": "Cast",
+};
+
+const download = (text: string, type: string, filename: string) => {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+export const BatchGenerator: React.FC<BatchGeneratorProps> = ({ glasses, initialGlassId, initialUnits, initialMode, initialConservativeness, onClose }) => {
+    // Glasses without known temps fail validation, and generateBatch skips rows with errors,
+    // so they would add nothing to the chart
+    const usable = glasses.filter(g => g.properties.anneal_temp && g.properties.strain_point);
+
+    const [glassIds, setGlassIds] = useState<string[]>(usable.some(g => g.id === initialGlassId) ? [initialGlassId] : usable.slice(0, 1).map(g => g.id));
+    const [units, setUnits] = useState<UnitSystem>(initialUnits);
+    const [thicknessText, setThicknessText] = useState<string>(BATCH_THICKNESS_PRESETS[initialUnits]);
+    const [shapes, setShapes] = useState<ShapeFactor[]>(["slab"]);
+    const [mode, setMode] = useState<BatchMode>(initialMode === "custom" ? "anneal_only" : initialMode);
+    const [conservativeness, setConservativeness] = useState<Conservativeness>(initialConservativeness);
+
+    const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(x => x !== item) : [...list, item];
+
+    const changeUnits = (next: UnitSystem) => {
+        if (next === units) return;
+        if (thicknessText === BATCH_THICKNESS_PRESETS[units]) {
+            setThicknessText(BATCH_THICKNESS_PRESETS[next]);
+        } else {
+            try {
+                const factor = next === 'metric' ? 2.54 : 1 / 2.54;
+                setThicknessText(parseThicknesses(thicknessText).map(t => Math.round(t * factor * 1000) / 1000).join(', '));
+            } catch {
+                // Leave an unreadable list for the user to fix
+            }
+        }
+        setUnits(next);
+    };
+
+    let thicknesses: number[] = [];
+    let error = "";
+    try {
+        thicknesses = parseThicknesses(thicknessText);
+    } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+    }
+    const selected = usable.filter(g => glassIds.includes(g.id));
+    const rowCount = selected.length * thicknesses.length * shapes.length;
+    if (!error && rowCount > MAX_BATCH_ROWS) {
+        error = `That is ${rowCount} schedules; narrow it down to ${MAX_BATCH_ROWS} or fewer.`;
+    }
+
+    const rows = error ? [] : generateBatch({
+        glasses: selected.map(g => ({ name: g.name, properties: g.properties })),
+        thicknesses,
+        shapes,
+        mode,
+        conservativeness,
+        units
+    });
+
+    const title = `${MODE_LABELS[mode]} Schedules by Thickness`;
+    const lengthUnit = units === 'metric' ? 'cm' : 'in';
+    const tempUnit = units === 'metric' ? '°C' : '°F';
+
+    const handlePrint = () => {
+        const blob = new Blob([batchToHtml(rows, units, mode, title)], { type: 'text/html' });
+        const url = URL.createObjectURL(blob);
+        const view = window.open(url, '_blank');
+        if (view) view.addEventListener('load', () => view.print());
+        // The new tab keeps its own copy once loaded
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    };
+
+    const chip = (active: boolean): React.CSSProperties => ({
+        width: 'auto',
+        padding: '4px 12px',
+        borderRadius: '12px',
+        fontSize: '0.8rem',
+        background: active ? 'rgba(96, 165, 250, 0.15)' : 'transparent',
+        border: active ? '1px solid rgba(96, 165, 250, 0.5)' : '1px solid #334155',
+        color: active ? '#60a5fa' : '#94a3b8',
+    });
+
+    const smallButton: React.CSSProperties = {
+        width: 'auto',
+        padding: '4px 12px',
+        background: 'transparent',
+        border: '1px solid #334155',
+        color: '#94a3b8',
+        fontSize: '0.8rem',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+    };
+
+    const cell: React.CSSProperties = { padding: '0.4rem', borderBottom: '1px solid #334155', textAlign: 'left' };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <h2 style={{ color: '#60a5fa', marginBottom: '0.5rem' }}>Schedule Chart</h2>
+                <p style={{ color: '#94a3b8', fontSize: '0.875rem', marginTop: 0 }}>
+                    One schedule per glass, thickness and shape, for handouts and wall charts.
+                </p>
+
+                <label>Glasses</label>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '1rem' }}>
+                    {usable.map(g => (
+                        <button key={g.id} style={chip(glassIds.includes(g.id))} onClick={() => setGlassIds(toggle(glassIds, g.id))}>{g.name}</button>
+                    ))}
+                </div>
+
+                <label>Shapes</label>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '1rem' }}>
+                    {(Object.keys(SHAPE_LABELS) as ShapeFactor[]).map(sh => (
+                        <button key={sh} style={chip(shapes.includes(sh))} onClick={() => setShapes(toggle(shapes, sh))}>{SHAPE_LABELS[sh]}</button>
+                    ))}
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ gridColumn: '1 / -1' }}>
+                        <label>Thicknesses ({lengthUnit})</label>
+                        <input value={thicknessText} onChange={(e) => setThicknessText(e.target.value)} />
+                        <small style={{ color: '#64748b' }}>Comma separated; "1-3/0.5" is a range with a step.</small>
+                    </div>
+                    <div>
+                        <label>Firing</label>
+                        <select value={mode} onChange={(e) => setMode(e.target.value as BatchMode)}>
+                            {(Object.keys(MODE_LABELS) as BatchMode[]).map(m => (
+                                <option key={m} value={m}>{MODE_LABELS[m]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label>Safety Factor</label>
+                        <select value={conservativeness} onChange={(e) => setConservativeness(e.target.value as Conservativeness)}>
+                            <option value="fast">Fast / Economy (0.75x)</option>
+                            <option value="standard">Standard (1.0x)</option>
+                            <option value="cautious">Cautious / Museum (1.5x)</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label>Units</label>
+                        <select value={units} onChange={(e) => changeUnits(e.target.value as UnitSystem)}>
+                            <option value="imperial">Imperial (°F, in)</option>
+                            <option value="metric">Metric (°C, cm)</option>
+                        </select>
+                    </div>
+                </div>
+
+                {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem' }}>
+                    <small style={{ color: '#64748b', marginRight: 'auto' }}>{rows.length} schedules</small>
+                    <button style={smallButton} disabled={rows.length === 0} onClick={() => download(batchToCsv(rows, units, mode), 'text/csv', 'schedule-chart.csv')}>
+                        <Download size={14} /> CSV
+                    </button>
+                    <button style={smallButton} disabled={rows.length === 0} onClick={() => download(batchToHtml(rows, units, mode, title), 'text/html', 'schedule-chart.html')}>
+                        <Download size={14} /> HTML
+                    </button>
+                    <button style={smallButton} disabled={rows.length === 0} onClick={handlePrint}>
+                        <Printer size={14} /> Print
+                    </button>
+                </div>
+
+                {rows.length > 0 && (
+                    <div style={{ maxHeight: '320px', overflowY: 'auto' }}>
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.8rem', color: '#cbd5e1' }}>
+                            <thead>
+                                <tr style={{ color: '#94a3b8' }}>
+                                    <th style={cell}>Glass</th>
+                                    <th style={cell}>{lengthUnit}</th>
+                                    <th style={cell}>Shape</th>
+                                    <th style={cell}>Soak</th>
+                                    <th style={cell}>Rate 1</th>
+                                    <th style={cell}>Rate 2</th>
+                                    <th style={cell}>Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((r, i) => (
+                                    <tr key={i}>
+                                        <td style={cell}>{r.glass}</td>
+                                        <td style={cell}>{r.thickness}</td>
+                                        <td style={cell}>{SHAPE_LABELS[r.shape]}</td>
+                                        <td style={cell}>{r.soak_hours.toFixed(2)} h @ {Math.round(r.soak_temp)}{tempUnit}</td>
+                                        <td style={cell}>{rateText(r.rate1)} → {Math.round(r.rate1_target)}</td>
+                                        <td style={cell}>{rateText(r.rate2)} → {Math.round(r.rate2_target)}</td>
+                                        <td style={cell}>{r.total_hours.toFixed(1)} h</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
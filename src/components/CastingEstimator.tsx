@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { GlassProperties, UnitSystem } from '../lib/annealingLogic';
+import { estimateCasting } from '../lib/castingGeometry';
+import type { CastingBasis, CastingEstimate } from '../lib/castingGeometry';
+
+interface CastingEstimatorProps {
+    units: UnitSystem;
+    glass: GlassProperties;
+    glassName: string;
+    onApply: (thickness: number, uneven: boolean) => void;
+    onClose: () => void;
+}
+
+export const CastingEstimator: React.FC<CastingEstimatorProps> = ({ units, glass, glassName, onApply, onClose }) => {
+    const [basis, setBasis] = useState<CastingBasis>("volume");
+    const [amount, setAmount] = useState<string>("");
+    const [area, setArea] = useState<string>("");
+    const [minSection, setMinSection] = useState<string>("");
+    const [maxSection, setMaxSection] = useState<string>("");
+
+    const length = units === 'metric' ? 'cm' : 'in';
+    const weightUnit = units === 'metric' ? 'g' : 'oz';
+    const optional = (v: string) => v ? parseFloat(v) : undefined;
+
+    let estimate: CastingEstimate | null = null;
+    let error = "";
+    if (amount) {
+        try {
+            estimate = estimateCasting({
+                basis,
+                amount: parseFloat(amount),
+                footprint_area: optional(area),
+                min_section: optional(minSection),
+                max_section: optional(maxSection)
+            }, glass, units);
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err);
+        }
+    }
+
+    const digits = units === 'metric' ? 2 : 3;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <h2 style={{ color: '#60a5fa', marginBottom: '0.5rem' }}>Thickness from Volume / Weight</h2>
+                <p style={{ color: '#94a3b8', fontSize: '0.875rem', marginTop: 0 }}>
+                    For castings and pâte de verre, where one thickness doesn't describe the piece. Glass: {glassName}.
+                </p>
+
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '1rem' }}>
+                    <div>
+                        <label>Known Amount</label>
+                        <select value={basis} onChange={(e) => setBasis(e.target.value as CastingBasis)}>
+                            <option value="volume">Mold Cavity Volume</option>
+                            <option value="weight">Glass Weight</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label>{basis === "volume" ? `Volume (${length}³)` : `Weight (${weightUnit})`}</label>
+                        <input type="number" value={amount} onChange={(e) => setAmount(e.target.value)} />
+                        {basis === "volume" && units === 'metric' && (
+                            <small style={{ color: '#64748b' }}>Fill the mold with water: 1 g = 1 cm³</small>
+                        )}
+                    </div>
+                    <div>
+                        <label>Footprint Area ({length}²)</label>
+                        <input type="number" value={area} onChange={(e) => setArea(e.target.value)} placeholder="Optional" />
+                    </div>
+                    <div>
+                        <label>Thinnest Section ({length})</label>
+                        <input type="number" value={minSection} onChange={(e) => setMinSection(e.target.value)} placeholder="Optional" />
+                    </div>
+                    <div>
+                        <label>Thickest Section ({length})</label>
+                        <input type="number" value={maxSection} onChange={(e) => setMaxSection(e.target.value)} placeholder="Optional" />
+                    </div>
+                </div>
+
+                {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+                {estimate && (
+                    <div className="card" style={{ marginTop: '1.5rem', textAlign: 'left' }}>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem', fontSize: '0.9rem', color: '#cbd5e1' }}>
+                            <div>Glass Volume</div>
+                            <div>{estimate.volume.toFixed(1)} {length}³</div>
+                            <div>Glass Needed</div>
+                            <div>{estimate.glass_weight.toFixed(units === 'metric' ? 0 : 1)} {weightUnit} (at {estimate.density} g/cm³)</div>
+                            {estimate.mean_thickness !== undefined && (
+                                <>
+                                    <div>Mean Depth</div>
+                                    <div>{estimate.mean_thickness.toFixed(digits)} {length}</div>
+                                </>
+                            )}
+                            <div style={{ color: '#e2e8f0', fontWeight: 600 }}>Annealing Thickness</div>
+                            <div style={{ color: '#e2e8f0', fontWeight: 600 }}>{estimate.effective_thickness.toFixed(digits)} {length}</div>
+                        </div>
+                        {estimate.notes.map((note, i) => (
+                            <p key={i} style={{ color: '#94a3b8', fontSize: '0.8rem', margin: '0.5rem 0 0 0' }}>{note}</p>
+                        ))}
+                        <button
+                            onClick={() => onApply(estimate.effective_thickness, estimate.uneven)}
+                            style={{ marginTop: '1rem' }}
+                        >
+                            Use This Thickness
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Plot } from './Plot';
+import { Trash2 } from 'lucide-react';
+import type { SegmentRate, UnitSystem } from '../lib/annealingLogic';
+import { pointsIn, summarizeSchedule } from '../lib/comparison';
+import type { ComparedSchedule } from '../lib/comparison';
+
+interface ComparisonPanelProps {
+    schedules: ComparedSchedule[];
+    units: UnitSystem;
+    onRemove: (index: number) => void;
+    onClear: () => void;
+}
+
+// One look per compared schedule, so they stay apart in greyscale prints too
+const STYLES = [
+    { color: '#ef4444', dash: 'solid' },
+    { color: '#3b82f6', dash: 'dash' },
+    { color: '#22c55e', dash: 'dot' },
+    { color: '#eab308', dash: 'dashdot' },
+] as const;
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ schedules, units, onRemove, onClear }) => {
+    const tempUnit = units === 'metric' ? '°C' : '°F';
+    const summaries = schedules.map(s => summarizeSchedule(s.result, units));
+    const base = summaries[0];
+
+    const traces = schedules.map((s, i) => {
+        const points = pointsIn(s.result, units);
+        return {
+            x: points.map(p => p.time),
+            y: points.map(p => p.temp),
+            type: 'scatter' as const,
+            mode: 'lines' as const,
+            name: s.label,
+            line: { color: STYLES[i].color, dash: STYLES[i].dash, width: 3 }
+        };
+    });
+
+    const rateStr = (r: SegmentRate) => r === "AFAP" ? "AFAP" : `${Math.round(r)}`;
+    // Difference from the first schedule, for numeric columns
+    const diff = (value: number, first: number, digits: number) => {
+        const d = value - first;
+        if (Math.abs(d) < Math.pow(10, -digits) / 2) return "";
+        return ` (${d > 0 ? '+' : ''}${d.toFixed(digits)})`;
+    };
+    const rateDiff = (value: SegmentRate, first: SegmentRate) =>
+        value === "AFAP" || first === "AFAP" ? "" : diff(value, first, 0);
+
+    const cell: React.CSSProperties = { padding: '0.5rem', borderBottom: '1px solid #334155', textAlign: 'left' };
+
+    return (
+        <div>
+            <div className="w-full h-[400px] bg-slate-900 rounded-lg overflow-hidden shadow-xl border border-slate-700">
+                <Plot
+                    style={{ width: '100%', height: '100%' }}
+                    useResizeHandler={true}
+                    data={traces}
+                    layout={{
+                        title: { text: 'Schedule Comparison', font: { color: '#e2e8f0' } },
+                        paper_bgcolor: 'rgba(0,0,0,0)',
+                        plot_bgcolor: 'rgba(0,0,0,0)',
+                        font: { color: '#94a3b8' },
+                        xaxis: {
+                            title: { text: 'Time (Hours)' },
+                            gridcolor: '#334155',
+                            zerolinecolor: '#475569'
+                        },
+                        yaxis: {
+                            title: { text: `Temperature (${tempUnit})` },
+                            gridcolor: '#334155',
+                            zerolinecolor: '#475569'
+                        },
+                        margin: { t: 50, r: 30, l: 60, b: 50 },
+                        showlegend: true,
+                        legend: { orientation: 'h', y: -0.2 }
+                    }}
+                    config={{ responsive: true, displayModeBar: false }}
+                />
+            </div>
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', color: '#cbd5e1', marginTop: '1rem' }}>
+                <thead>
+                    <tr style={{ color: '#94a3b8' }}>
+                        <th style={cell}>Schedule</th>
+                        <th style={cell}>Soak (h)</th>
+                        <th style={cell}>Rate 1 ({tempUnit}/hr)</th>
+                        <th style={cell}>Rate 2 ({tempUnit}/hr)</th>
+                        <th style={cell}>Total (h)</th>
+                        <th style={cell}></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {schedules.map((s, i) => {
+                        const sum = summaries[i];
+                        return (
+                            <tr key={i}>
+                                <td style={{ ...cell, color: STYLES[i].color }}>{s.label}</td>
+                                <td style={cell}>{sum.soak_hours.toFixed(2)}{i > 0 && diff(sum.soak_hours, base.soak_hours, 2)}</td>
+                                <td style={cell}>{rateStr(sum.rate1)}{i > 0 && rateDiff(sum.rate1, base.rate1)}</td>
+                                <td style={cell}>{rateStr(sum.rate2)}{i > 0 && rateDiff(sum.rate2, base.rate2)}</td>
+                                <td style={cell}>{sum.total_hours.toFixed(1)}{i > 0 && diff(sum.total_hours, base.total_hours, 1)}</td>
+                                <td style={cell}>
+                                    <button
+                                        onClick={() => onRemove(i)}
+                                        style={{ width: 'auto', padding: '4px 8px', background: 'transparent', border: '1px solid #334155', color: '#94a3b8' }}
+                                        title="Remove from comparison"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '0.75rem' }}>
+                <small style={{ color: '#64748b' }}>Differences are against the first schedule.</small>
+                <button
+                    onClick={onClear}
+                    style={{ width: 'auto', padding: '4px 12px', background: 'transparent', border: '1px solid #334155', color: '#94a3b8', fontSize: '0.8rem' }}
+                >
+                    Clear Comparison
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+import type { ScheduleField, ScheduleIssue } from '../lib/annealingLogic';
+
+interface FieldIssuesProps {
+    issues: ScheduleIssue[];
+    field: ScheduleField;
+}
+
+// The errors and warnings for one input, shown beneath it
+export const FieldIssues: React.FC<FieldIssuesProps> = ({ issues, field }) => (
+    <>
+        {issues.filter(issue => issue.field === field).map((issue, i) => (
+            <small key={i} style={{ display: 'block', color: issue.severity === 'error' ? '#f87171' : '#eab308' }}>
+                {issue.message}
+            </small>
+        ))}
+    </>
+);
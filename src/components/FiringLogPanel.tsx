@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, Upload, X } from 'lucide-react';
+import type { UnitSystem } from '../lib/annealingLogic';
+import { parseFiringLog } from '../lib/firingLog';
+import type { FiringLogPoint, LogComparison } from '../lib/firingLog';
+
+interface FiringLogPanelProps {
+    units: UnitSystem;
+    comparison: LogComparison | null;
+    tolerance: string;
+    onToleranceChange: (tolerance: string) => void;
+    onLoad: (log: FiringLogPoint[] | null) => void;
+}
+
+export const FiringLogPanel: React.FC<FiringLogPanelProps> = ({ units, comparison, tolerance, onToleranceChange, onLoad }) => {
+    const [error, setError] = useState<string>("");
+    const [fileName, setFileName] = useState<string>("");
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const tempUnit = units === 'metric' ? '°C' : '°F';
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            onLoad(parseFiringLog(await file.text(), units));
+            setFileName(file.name);
+            setError("");
+        } catch (err) {
+            setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const smallButton: React.CSSProperties = {
+        width: 'auto',
+        padding: '4px 12px',
+        background: 'transparent',
+        border: '1px solid #334155',
+        color: '#94a3b8',
+        fontSize: '0.8rem',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px'
+    };
+    const cell: React.CSSProperties = { padding: '0.5rem', borderBottom: '1px solid #334155', textAlign: 'left' };
+
+    return (
+        <div style={{ marginTop: '1rem' }}>
+            <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                <button style={smallButton} onClick={() => fileInput.current?.click()} title="CSV of time and thermocouple temperature">
+                    <Upload size={14} /> Import Firing Log
+                </button>
+                <input ref={fileInput} type="file" accept=".csv,text/csv,text/plain" onChange={handleImport} style={{ display: 'none' }} />
+                {comparison && (
+                    <>
+                        <small style={{ color: '#94a3b8' }}>{fileName}</small>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', margin: 0, fontSize: '0.8rem' }}>
+                            Tolerance ({tempUnit})
+                            <input type="number" value={tolerance} onChange={(e) => onToleranceChange(e.target.value)} style={{ width: '70px' }} />
+                        </label>
+                        <button style={smallButton} onClick={() => { onLoad(null); setFileName(""); }} title="Remove the log">
+                            <X size={14} /> Clear
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+            {comparison && (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', color: '#cbd5e1', marginTop: '1rem' }}>
+                    <thead>
+                        <tr style={{ color: '#94a3b8' }}>
+                            <th style={cell}>Segment</th>
+                            <th style={cell}>Planned (h)</th>
+                            <th style={cell}>Max Deviation</th>
+                            <th style={cell}>Cooling Rate</th>
+                            <th style={cell}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {comparison.segments.map((seg, i) => (
+                            <tr key={i} style={{ color: seg.flagged ? '#f97316' : undefined }}>
+                                <td style={cell}>{seg.label}</td>
+                                <td style={cell}>{seg.start.toFixed(1)} - {seg.end.toFixed(1)}</td>
+                                <td style={cell}>
+                                    {seg.max_deviation === null ? 'No readings' : `${seg.max_deviation > 0 ? '+' : ''}${Math.round(seg.max_deviation)}${tempUnit}`}
+                                </td>
+                                <td style={cell}>
+                                    {seg.planned_rate === null ? '' : `${seg.max_cool_rate === null ? '-' : Math.round(seg.max_cool_rate)} / ${Math.round(seg.planned_rate)} ${tempUnit}/hr`}
+                                </td>
+                                <td style={cell}>
+                                    {seg.flagged && (
+                                        <span title={seg.messages.join(' ')} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                                            <AlertTriangle size={14} /> {seg.messages.join(' ')}
+                                        </span>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
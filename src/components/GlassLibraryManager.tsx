@@ -0,0 +1,260 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import type { GlassProperties, UnitSystem } from '../lib/annealingLogic';
+import {
+    BUILT_IN_GLASSES,
+    createGlassProfile,
+    duplicateGlassProfile,
+    exportGlassLibrary,
+    parseGlassLibrary
+} from '../lib/glassLibrary';
+import type { GlassProfile } from '../lib/glassLibrary';
+
+interface GlassLibraryManagerProps {
+    units: UnitSystem;
+    userGlasses: GlassProfile[];
+    onChange: (profiles: GlassProfile[]) => void;
+    onSelect: (id: string) => void;
+    onClose: () => void;
+}
+
+// Form values are strings in the current unit system; storage is always Fahrenheit
+type GlassForm = Record<'name' | 'anneal_temp' | 'strain_point' | 'brand_factor' | 'coe' | 'density' | 'slump_temp' | 'tack_fuse_temp' | 'full_fuse_temp' | 'cast_temp', string>;
+
+const TEMP_FIELDS: { key: keyof GlassForm; label: string; required: boolean }[] = [
+    { key: 'anneal_temp', label: 'Anneal', required: true },
+    { key: 'strain_point', label: 'Strain', required: true },
+    { key: 'slump_temp', label: 'Slump', required: false },
+    { key: 'tack_fuse_temp', label: 'Tack Fuse', required: false },
+    { key: 'full_fuse_temp', label: 'Full Fuse', required: false },
+    { key: 'cast_temp', label: 'Cast', required: false },
+];
+
+export const GlassLibraryManager: React.FC<GlassLibraryManagerProps> = ({ units, userGlasses, onChange, onSelect, onClose }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<GlassForm | null>(null);
+    const [error, setError] = useState<string>("");
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const unitLabel = units === 'metric' ? '°C' : '°F';
+    const toDisplay = (f: number | null | undefined) => {
+        if (f === null || f === undefined) return "";
+        return Math.round(units === 'metric' ? (f - 32) * 5 / 9 : f).toString();
+    };
+    const fromDisplay = (v: number) => units === 'metric' ? (v * 9 / 5) + 32 : v;
+
+    const startEdit = (profile: GlassProfile | null) => {
+        const p = profile?.properties;
+        setError("");
+        setEditingId(profile ? profile.id : null);
+        setForm({
+            name: profile?.name ?? "",
+            anneal_temp: toDisplay(p?.anneal_temp),
+            strain_point: toDisplay(p?.strain_point),
+            brand_factor: (p?.brand_factor ?? 1.0).toString(),
+            coe: p?.coe?.toString() ?? "",
+            density: p?.density?.toString() ?? "",
+            slump_temp: toDisplay(p?.slump_temp),
+            tack_fuse_temp: toDisplay(p?.tack_fuse_temp),
+            full_fuse_temp: toDisplay(p?.full_fuse_temp),
+            cast_temp: toDisplay(p?.cast_temp),
+        });
+    };
+
+    const saveEdit = () => {
+        if (!form) return;
+        if (!form.name.trim()) {
+            setError("Please enter a name.");
+            return;
+        }
+
+        const temps: Partial<Record<keyof GlassForm, number>> = {};
+        for (const field of TEMP_FIELDS) {
+            const raw = form[field.key];
+            if (!raw) {
+                if (field.required) {
+                    setError(`Please enter the ${field.label} temperature.`);
+                    return;
+                }
+                continue;
+            }
+            const v = parseFloat(raw);
+            if (isNaN(v)) {
+                setError(`${field.label} temperature must be a number.`);
+                return;
+            }
+            temps[field.key] = fromDisplay(v);
+        }
+        const brandFactor = parseFloat(form.brand_factor);
+        if (isNaN(brandFactor) || brandFactor <= 0) {
+            setError("Brand factor must be a positive number.");
+            return;
+        }
+
+        const coe = form.coe ? parseFloat(form.coe) : null;
+        if (coe !== null && (isNaN(coe) || coe <= 0)) {
+            setError("COE must be a positive number.");
+            return;
+        }
+
+        const density = form.density ? parseFloat(form.density) : undefined;
+        if (density !== undefined && (isNaN(density) || density <= 0)) {
+            setError("Density must be a positive number.");
+            return;
+        }
+
+        const properties: GlassProperties = {
+            anneal_temp: temps.anneal_temp!,
+            strain_point: temps.strain_point!,
+            brand_factor: brandFactor,
+            coe,
+            density,
+            slump_temp: temps.slump_temp,
+            tack_fuse_temp: temps.tack_fuse_temp,
+            full_fuse_temp: temps.full_fuse_temp,
+            cast_temp: temps.cast_temp,
+        };
+
+        if (editingId) {
+            onChange(userGlasses.map(g => g.id === editingId ? { ...g, name: form.name.trim(), properties } : g));
+        } else {
+            const created = createGlassProfile(form.name.trim(), properties);
+            onChange([...userGlasses, created]);
+            onSelect(created.id);
+        }
+        setForm(null);
+        setEditingId(null);
+        setError("");
+    };
+
+    const handleDuplicate = (profile: GlassProfile) => {
+        const copy = duplicateGlassProfile(profile, [...BUILT_IN_GLASSES, ...userGlasses]);
+        onChange([...userGlasses, copy]);
+        startEdit(copy);
+    };
+
+    const handleDelete = (profile: GlassProfile) => {
+        if (!confirm(`Delete "${profile.name}"?`)) return;
+        onChange(userGlasses.filter(g => g.id !== profile.id));
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportGlassLibrary(userGlasses)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'glass-library.json';
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            const imported = parseGlassLibrary(await file.text()).map(g => createGlassProfile(g.name, g.properties));
+            onChange([...userGlasses, ...imported]);
+            setError("");
+        } catch (err) {
+            setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const smallButton: React.CSSProperties = {
+        width: 'auto',
+        padding: '4px 8px',
+        background: 'transparent',
+        border: '1px solid #334155',
+        color: '#94a3b8',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '0.75rem',
+    };
+
+    const renderRow = (profile: GlassProfile) => (
+        <div key={profile.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.5rem 0', borderBottom: '1px solid #334155' }}>
+            <div style={{ flex: 1, textAlign: 'left' }}>
+                <div style={{ color: '#e2e8f0' }}>{profile.name}</div>
+                <small style={{ color: '#64748b' }}>
+                    {profile.properties.anneal_temp !== null
+                        ? `Anneal ${toDisplay(profile.properties.anneal_temp)}${unitLabel} · Strain ${toDisplay(profile.properties.strain_point)}${unitLabel} · Factor ${profile.properties.brand_factor}${profile.properties.coe !== null ? ` · COE ${profile.properties.coe}` : ''}`
+                        : 'Enter temperatures as overrides'}
+                </small>
+            </div>
+            {!profile.builtin && (
+                <>
+                    <button style={smallButton} onClick={() => startEdit(profile)} title="Edit"><Pencil size={14} /></button>
+                    <button style={smallButton} onClick={() => handleDelete(profile)} title="Delete"><Trash2 size={14} /></button>
+                </>
+            )}
+            {/* A copy is saved straight away, so only glasses complete enough to store can be copied */}
+            {profile.properties.anneal_temp !== null && profile.properties.strain_point !== null && (
+                <button style={smallButton} onClick={() => handleDuplicate(profile)} title="Duplicate"><Copy size={14} /></button>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <h2 style={{ color: '#60a5fa', marginBottom: '1.5rem' }}>Glass Library</h2>
+
+                <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+                    <button style={smallButton} onClick={() => startEdit(null)}><Plus size={14} /> New Glass</button>
+                    <button style={smallButton} onClick={() => fileInput.current?.click()}><Upload size={14} /> Import JSON</button>
+                    <button style={smallButton} onClick={handleExport} disabled={userGlasses.length === 0}><Download size={14} /> Export JSON</button>
+                    <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} style={{ display: 'none' }} />
+                </div>
+
+                {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+                {form && (
+                    <div className="card" style={{ marginBottom: '1.5rem' }}>
+                        <h3 style={{ marginTop: 0, fontSize: '1rem' }}>{editingId ? 'Edit Glass' : 'New Glass'}</h3>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '1rem' }}>
+                            <div style={{ gridColumn: '1 / -1' }}>
+                                <label>Name</label>
+                                <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Uroboros (COE 90)" />
+                            </div>
+                            {TEMP_FIELDS.map(field => (
+                                <div key={field.key}>
+                                    <label>{field.label} ({unitLabel}){field.required ? '' : ' - optional'}</label>
+                                    <input type="number" value={form[field.key]} onChange={(e) => setForm({ ...form, [field.key]: e.target.value })} />
+                                </div>
+                            ))}
+                            <div>
+                                <label>Brand Factor</label>
+                                <input type="number" step="0.05" value={form.brand_factor} onChange={(e) => setForm({ ...form, brand_factor: e.target.value })} />
+                            </div>
+                            <div>
+                                <label>COE - optional</label>
+                                <input type="number" value={form.coe} onChange={(e) => setForm({ ...form, coe: e.target.value })} placeholder="e.g. 90" />
+                            </div>
+                            <div>
+                                <label>Density (g/cm³) - optional</label>
+                                <input type="number" step="0.01" value={form.density} onChange={(e) => setForm({ ...form, density: e.target.value })} placeholder="e.g. 2.5" />
+                            </div>
+                        </div>
+                        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                            <button onClick={saveEdit}>Save</button>
+                            <button onClick={() => { setForm(null); setEditingId(null); setError(""); }} style={{ background: '#334155' }}>Cancel</button>
+                        </div>
+                    </div>
+                )}
+
+                <h3 style={{ fontSize: '1rem', textAlign: 'left' }}>My Glasses</h3>
+                {userGlasses.length === 0
+                    ? <p style={{ color: '#64748b', fontSize: '0.875rem', textAlign: 'left' }}>No saved glasses yet. Duplicate a built-in or create a new one.</p>
+                    : userGlasses.map(renderRow)}
+
+                <h3 style={{ fontSize: '1rem', textAlign: 'left', marginTop: '1.5rem' }}>Built-in (read-only)</h3>
+                {BUILT_IN_GLASSES.map(renderRow)}
+            </div>
+        </div>
+    );
+};
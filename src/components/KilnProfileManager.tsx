@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { KilnProperties, UnitSystem } from '../lib/annealingLogic';
+import { createKilnProfile, fitCoolingTau, parseCoolingCurve } from '../lib/kilnProfiles';
+import type { KilnProfile } from '../lib/kilnProfiles';
+
+interface KilnProfileManagerProps {
+    units: UnitSystem;
+    profiles: KilnProfile[];
+    onChange: (profiles: KilnProfile[]) => void;
+    onSelect: (id: string) => void;
+    onClose: () => void;
+}
+
+// Form values are strings in the current unit system; storage is always °F and liters
+type KilnForm = Record<'name' | 'max_heat_rate' | 'cooling_tau_hours' | 'cooling_curve' | 'power_kw' | 'volume', string>;
+
+const LITERS_PER_CU_FT = 28.317;
+
+export const KilnProfileManager: React.FC<KilnProfileManagerProps> = ({ units, profiles, onChange, onSelect, onClose }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<KilnForm | null>(null);
+    const [error, setError] = useState<string>("");
+
+    const rateUnit = units === 'metric' ? '°C/hr' : '°F/hr';
+    const tempUnit = units === 'metric' ? '°C' : '°F';
+    const volumeUnit = units === 'metric' ? 'L' : 'cu ft';
+    const rateToDisplay = (f: number) => Math.round(units === 'metric' ? f * 5 / 9 : f);
+    const volumeToDisplay = (l: number) => units === 'metric' ? Math.round(l) : Math.round(l / LITERS_PER_CU_FT * 10) / 10;
+
+    const startEdit = (profile: KilnProfile | null) => {
+        const p = profile?.properties;
+        setError("");
+        setEditingId(profile ? profile.id : null);
+        setForm({
+            name: profile?.name ?? "",
+            max_heat_rate: p ? rateToDisplay(p.max_heat_rate).toString() : "",
+            cooling_tau_hours: p ? p.cooling_tau_hours.toFixed(2) : "3",
+            cooling_curve: profile?.cooling_curve
+                ?.map(c => `${c.hours}, ${Math.round(units === 'metric' ? (c.temp - 32) * 5 / 9 : c.temp)}`)
+                .join("\n") ?? "",
+            power_kw: p ? p.power_kw.toString() : "",
+            volume: p ? volumeToDisplay(p.volume_liters).toString() : "",
+        });
+    };
+
+    const saveEdit = () => {
+        if (!form) return;
+        if (!form.name.trim()) {
+            setError("Please enter a name.");
+            return;
+        }
+
+        const maxHeat = parseFloat(form.max_heat_rate);
+        if (isNaN(maxHeat) || maxHeat <= 0) {
+            setError("Max heating rate must be a positive number.");
+            return;
+        }
+
+        // A measured curve wins over a typed time constant
+        let tau = parseFloat(form.cooling_tau_hours);
+        let curve = undefined;
+        if (form.cooling_curve.trim()) {
+            try {
+                curve = parseCoolingCurve(form.cooling_curve, units);
+                tau = fitCoolingTau(curve);
+            } catch (err) {
+                setError(`Cooling curve: ${err instanceof Error ? err.message : String(err)}`);
+                return;
+            }
+        }
+        if (isNaN(tau) || tau <= 0) {
+            setError("Cooling time constant must be a positive number of hours.");
+            return;
+        }
+
+        const power = form.power_kw ? parseFloat(form.power_kw) : 0;
+        const volume = form.volume ? parseFloat(form.volume) : 0;
+        if (isNaN(power) || power < 0 || isNaN(volume) || volume < 0) {
+            setError("Power and volume must be zero or more.");
+            return;
+        }
+
+        const properties: KilnProperties = {
+            max_heat_rate: units === 'metric' ? maxHeat * 9 / 5 : maxHeat,
+            cooling_tau_hours: tau,
+            power_kw: power,
+            volume_liters: units === 'metric' ? volume : volume * LITERS_PER_CU_FT,
+        };
+
+        if (editingId) {
+            onChange(profiles.map(k => k.id === editingId ? { ...k, name: form.name.trim(), properties, cooling_curve: curve } : k));
+        } else {
+            const created = createKilnProfile(form.name.trim(), properties, curve);
+            onChange([...profiles, created]);
+            onSelect(created.id);
+        }
+        setForm(null);
+        setEditingId(null);
+        setError("");
+    };
+
+    const handleDelete = (profile: KilnProfile) => {
+        if (!confirm(`Delete "${profile.name}"?`)) return;
+        onChange(profiles.filter(k => k.id !== profile.id));
+    };
+
+    const smallButton: React.CSSProperties = {
+        width: 'auto',
+        padding: '4px 8px',
+        background: 'transparent',
+        border: '1px solid #334155',
+        color: '#94a3b8',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '0.75rem',
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <h2 style={{ color: '#60a5fa', marginBottom: '1.5rem' }}>Kiln Profiles</h2>
+
+                <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+                    <button style={smallButton} onClick={() => startEdit(null)}><Plus size={14} /> New Kiln</button>
+                </div>
+
+                {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+                {form && (
+                    <div className="card" style={{ marginBottom: '1.5rem' }}>
+                        <h3 style={{ marginTop: 0, fontSize: '1rem' }}>{editingId ? 'Edit Kiln' : 'New Kiln'}</h3>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '1rem' }}>
+                            <div style={{ gridColumn: '1 / -1' }}>
+                                <label>Name</label>
+                                <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Studio Paragon" />
+                            </div>
+                            <div>
+                                <label>Max Heating ({rateUnit})</label>
+                                <input type="number" value={form.max_heat_rate} onChange={(e) => setForm({ ...form, max_heat_rate: e.target.value })} placeholder={units === 'metric' ? "e.g. 330" : "e.g. 600"} />
+                            </div>
+                            <div>
+                                <label>Cooling Time Constant (h)</label>
+                                <input type="number" step="0.1" value={form.cooling_tau_hours} disabled={!!form.cooling_curve.trim()} onChange={(e) => setForm({ ...form, cooling_tau_hours: e.target.value })} />
+                            </div>
+                            <div>
+                                <label>Element Power (kW)</label>
+                                <input type="number" step="0.1" value={form.power_kw} onChange={(e) => setForm({ ...form, power_kw: e.target.value })} />
+                            </div>
+                            <div>
+                                <label>Usable Volume ({volumeUnit})</label>
+                                <input type="number" value={form.volume} onChange={(e) => setForm({ ...form, volume: e.target.value })} />
+                            </div>
+                            <div style={{ gridColumn: '1 / -1' }}>
+                                <label>Measured Cooling Curve - optional</label>
+                                <textarea
+                                    value={form.cooling_curve}
+                                    onChange={(e) => setForm({ ...form, cooling_curve: e.target.value })}
+                                    rows={4}
+                                    placeholder={`hours, ${tempUnit} per line, lid closed and elements off\ne.g.\n0, ${units === 'metric' ? 800 : 1470}\n1, ${units === 'metric' ? 560 : 1040}`}
+                                    style={{ width: '100%', fontFamily: 'monospace' }}
+                                />
+                                <small style={{ color: '#888' }}>When given, the time constant is fitted to these readings.</small>
+                            </div>
+                        </div>
+                        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                            <button onClick={saveEdit}>Save</button>
+                            <button onClick={() => { setForm(null); setEditingId(null); setError(""); }} style={{ background: '#334155' }}>Cancel</button>
+                        </div>
+                    </div>
+                )}
+
+                {profiles.length === 0
+                    ? <p style={{ color: '#64748b', fontSize: '0.875rem', textAlign: 'left' }}>No kilns yet. Without one, schedules assume a kiln that can follow any ramp.</p>
+                    : profiles.map(profile => (
+                        <div key={profile.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.5rem 0', borderBottom: '1px solid #334155' }}>
+                            <div style={{ flex: 1, textAlign: 'left' }}>
+                                <div style={{ color: '#e2e8f0' }}>{profile.name}</div>
+                                <small style={{ color: '#64748b' }}>
+                                    {`Heats ${rateToDisplay(profile.properties.max_heat_rate)} ${rateUnit} · Cooling τ ${profile.properties.cooling_tau_hours.toFixed(1)} h${profile.cooling_curve ? ' (measured)' : ''} · ${profile.properties.power_kw} kW · ${volumeToDisplay(profile.properties.volume_liters)} ${volumeUnit}`}
+                                </small>
+                            </div>
+                            <button style={smallButton} onClick={() => startEdit(profile)} title="Edit"><Pencil size={14} /></button>
+                            <button style={smallButton} onClick={() => handleDelete(profile)} title="Delete"><Trash2 size={14} /></button>
+                        </div>
+                    ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Download, Printer, X } from 'lucide-react';
+import type { Conservativeness, ScheduleMode, ScheduleResult, ShapeFactor, UnitSystem } from '../lib/annealingLogic';
+import { CONTROLLERS } from '../lib/controllers';
+import type { ControllerId } from '../lib/controllers';
+import { SHAPE_LABELS } from '../lib/batchSchedules';
+import { buildKilnSheet, drawKilnSheet } from '../lib/kilnSheet';
+import { AnnealingChart } from './AnnealingChart';
+import { Plotly } from './Plot';
+
+interface KilnSheetViewProps {
+    result: ScheduleResult;
+    glassName: string;
+    thickness: string;
+    shape: ShapeFactor;
+    conservativeness: Conservativeness;
+    mode: ScheduleMode;
+    initialController: ControllerId;
+    onClose: () => void;
+}
+
+const MODE_LABELS: Record<ScheduleMode, string> = {
+    "anneal_only": "Anneal Only",
+    "tack_fuse": "Tack Fuse",
+    "full_fuse": "Full Fuse",
+    "slump": "Slump",
+    "cast": "Cast",
+    "custom": "Custom Program",
+};
+
+const SAFETY_LABELS: Record<Conservativeness, string> = {
+    "fast": "Fast / Economy (0.75x)",
+    "standard": "Standard (1.0x)",
+    "cautious": "Cautious / Museum (1.5x)",
+};
+
+// Size of the chart in the PNG, before it's scaled onto the page
+const CHART_IMAGE = { width: 1120, height: 500 };
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Couldn't render the chart image."));
+        img.src = src;
+    });
+}
+
+export const KilnSheetView: React.FC<KilnSheetViewProps> = ({ result, glassName, thickness, shape, conservativeness, mode, initialController, onClose }) => {
+    const [controllerId, setControllerId] = useState<ControllerId>(initialController);
+    const [graphDiv, setGraphDiv] = useState<HTMLElement | null>(null);
+    const [error, setError] = useState<string>("");
+
+    const units: UnitSystem = result.units;
+    const sheet = buildKilnSheet(result, controllerId, `${MODE_LABELS[mode]}: ${glassName}`, [
+        { label: "Glass", value: glassName },
+        { label: "Thickness", value: `${thickness} ${units === 'metric' ? 'cm' : 'in'}` },
+        { label: "Shape", value: SHAPE_LABELS[shape] },
+        { label: "Safety", value: SAFETY_LABELS[conservativeness] },
+        { label: "Firing", value: MODE_LABELS[mode] },
+        { label: "Printed", value: new Date().toLocaleDateString() },
+    ]);
+
+    const handlePng = async () => {
+        if (!graphDiv) return;
+        try {
+            const chart = await loadImage(await Plotly.toImage(graphDiv, { format: 'png', ...CHART_IMAGE }));
+            drawKilnSheet(sheet, chart).toBlob((blob) => {
+                if (!blob) return;
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = url;
+                a.download = 'kiln-sheet.png';
+                a.click();
+                URL.revokeObjectURL(url);
+            }, 'image/png');
+            setError("");
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const smallButton: React.CSSProperties = {
+        width: 'auto',
+        padding: '4px 12px',
+        background: 'transparent',
+        border: '1px solid #334155',
+        color: '#94a3b8',
+        fontSize: '0.8rem',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+    };
+
+    return (
+        <div className="modal-overlay kiln-sheet-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close no-print" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <div className="no-print" style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem', paddingRight: '3rem' }}>
+                    <select value={controllerId} onChange={(e) => setControllerId(e.target.value as ControllerId)} style={{ width: 'auto' }}>
+                        {(Object.keys(CONTROLLERS) as ControllerId[]).map(id => (
+                            <option key={id} value={id}>{CONTROLLERS[id].name}</option>
+                        ))}
+                    </select>
+                    <button style={smallButton} onClick={() => window.print()} title="Print, or choose Save as PDF in the print dialog">
+                        <Printer size={14} /> Print / PDF
+                    </button>
+                    <button style={smallButton} onClick={handlePng} disabled={!graphDiv}>
+                        <Download size={14} /> PNG
+                    </button>
+                </div>
+                {error && <p className="no-print" style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+                <div className="kiln-sheet">
+                    <h2>{sheet.title}</h2>
+                    <div className="kiln-sheet-fields">
+                        {sheet.fields.map(f => (
+                            <div key={f.label}><strong>{f.label}:</strong> {f.value}</div>
+                        ))}
+                    </div>
+
+                    <AnnealingChart points={result.points} units={units} theme="print" onReady={setGraphDiv} />
+
+                    <h3>{sheet.controller}</h3>
+                    <table>
+                        <thead>
+                            <tr>{sheet.table.headers.map((h, i) => <th key={i}>{h}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {sheet.table.rows.map((row, r) => (
+                                <tr key={r}>{row.map((text, c) => <td key={c}>{text}</td>)}</tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {sheet.table.notes.map((note, i) => (
+                        <p key={i} className="kiln-sheet-note">{note}</p>
+                    ))}
+
+                    <div className="kiln-sheet-blanks">
+                        {sheet.blanks.map(blank => (
+                            <div key={blank}><strong>{blank}</strong><span /></div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
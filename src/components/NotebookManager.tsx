@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Camera, Copy, FolderOpen, Pencil, Trash2, X } from 'lucide-react';
+import { OUTCOME_LABELS, duplicateNotebookEntry, searchNotebook } from '../lib/notebook';
+import type { FiringOutcome, FiringRecord, NotebookEntry } from '../lib/notebook';
+
+interface NotebookManagerProps {
+    entries: NotebookEntry[];
+    onChange: (entries: NotebookEntry[]) => void; // Throws when storage is full
+    onOpen: (entry: NotebookEntry) => void;
+    onClose: () => void;
+}
+
+const OUTCOME_COLORS: Record<FiringOutcome, string> = {
+    "success": '#22c55e',
+    "crack": '#f87171',
+    "devit": '#eab308',
+    "bubbles": '#60a5fa',
+};
+
+const MODE_LABELS: Record<string, string> = {
+    "anneal_only": "Anneal Only",
+    "tack_fuse": "Tack Fuse",
+    "full_fuse": "Full Fuse",
+    "slump": "Slump",
+    "cast": "Cast",
+    "custom": "Custom Program",
+};
+
+// Longest side of a stored photo, in pixels
+const PHOTO_MAX_PX = 800;
+
+// Downscales a photo to a JPEG data URL small enough for browser storage
+function readPhoto(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const url = URL.createObjectURL(file);
+        img.onload = () => {
+            const scale = Math.min(1, PHOTO_MAX_PX / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(img.width * scale);
+            canvas.height = Math.round(img.height * scale);
+            canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("That file isn't an image this browser can read."));
+        };
+        img.src = url;
+    });
+}
+
+export const NotebookManager: React.FC<NotebookManagerProps> = ({ entries, onChange, onOpen, onClose }) => {
+    const [query, setQuery] = useState<string>("");
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [record, setRecord] = useState<FiringRecord | null>(null);
+    const [error, setError] = useState<string>("");
+
+    const save = (next: NotebookEntry[]) => {
+        try {
+            onChange(next);
+            setError("");
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            return false;
+        }
+    };
+
+    const startRecord = (entry: NotebookEntry) => {
+        setEditingId(entry.id);
+        setRecord(entry.firing ?? { outcome: "success", fired_on: new Date().toISOString().slice(0, 10), notes: "" });
+        setError("");
+    };
+
+    const saveRecord = () => {
+        if (!record || !editingId) return;
+        if (save(entries.map(e => e.id === editingId ? { ...e, firing: record } : e))) {
+            setEditingId(null);
+            setRecord(null);
+        }
+    };
+
+    const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file || !record) return;
+        try {
+            setRecord({ ...record, photo: await readPhoto(file) });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleDuplicate = (entry: NotebookEntry) => {
+        const copy = duplicateNotebookEntry(entry, entries);
+        if (save([copy, ...entries])) onOpen(copy);
+    };
+
+    const handleDelete = (entry: NotebookEntry) => {
+        if (!confirm(`Delete "${entry.name}"?`)) return;
+        save(entries.filter(e => e.id !== entry.id));
+    };
+
+    const smallButton: React.CSSProperties = {
+        width: 'auto',
+        padding: '4px 8px',
+        background: 'transparent',
+        border: '1px solid #334155',
+        color: '#94a3b8',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '0.75rem',
+    };
+
+    const shown = searchNotebook(entries, query);
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <h2 style={{ color: '#60a5fa', marginBottom: '1.5rem' }}>Firing Notebook</h2>
+
+                <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search by name, glass, mode, outcome or notes" style={{ marginBottom: '1rem' }} />
+
+                {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+                {entries.length === 0 && (
+                    <p style={{ color: '#64748b', fontSize: '0.875rem', textAlign: 'left' }}>No saved schedules yet. Generate one and press "Save to Notebook".</p>
+                )}
+
+                {shown.map(entry => (
+                    <div key={entry.id} style={{ padding: '0.75rem 0', borderBottom: '1px solid #334155', textAlign: 'left' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                            <div style={{ flex: 1 }}>
+                                <div style={{ color: '#e2e8f0' }}>
+                                    {entry.name}
+                                    {entry.firing && (
+                                        <span style={{ marginLeft: '0.5rem', padding: '1px 8px', borderRadius: '12px', fontSize: '0.7rem', color: '#0f172a', background: OUTCOME_COLORS[entry.firing.outcome] }}>
+                                            {OUTCOME_LABELS[entry.firing.outcome]}
+                                        </span>
+                                    )}
+                                </div>
+                                <small style={{ color: '#64748b' }}>
+                                    {new Date(entry.created).toLocaleDateString()} · {entry.glass_name} · {MODE_LABELS[entry.inputs.scheduleMode] ?? entry.inputs.scheduleMode} · {entry.inputs.thickness} {entry.inputs.units === 'metric' ? 'cm' : 'in'}
+                                </small>
+                            </div>
+                            <button style={smallButton} onClick={() => onOpen(entry)} title="Load into the calculator"><FolderOpen size={14} /></button>
+                            <button style={smallButton} onClick={() => startRecord(entry)} title="Record the firing"><Pencil size={14} /></button>
+                            <button style={smallButton} onClick={() => handleDuplicate(entry)} title="Duplicate as a new starting point"><Copy size={14} /></button>
+                            <button style={smallButton} onClick={() => handleDelete(entry)} title="Delete"><Trash2 size={14} /></button>
+                        </div>
+
+                        {entry.firing && editingId !== entry.id && (entry.firing.notes || entry.firing.photo) && (
+                            <div style={{ display: 'flex', gap: '0.75rem', marginTop: '0.5rem', color: '#94a3b8', fontSize: '0.8rem' }}>
+                                {entry.firing.photo && <img src={entry.firing.photo} alt="" style={{ width: '64px', height: '64px', objectFit: 'cover', borderRadius: '0.25rem' }} />}
+                                <div>
+                                    <div>Fired {entry.firing.fired_on}</div>
+                                    <div style={{ whiteSpace: 'pre-wrap' }}>{entry.firing.notes}</div>
+                                </div>
+                            </div>
+                        )}
+
+                        {editingId === entry.id && record && (
+                            <div className="card" style={{ marginTop: '0.75rem' }}>
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                                    <div>
+                                        <label>Outcome</label>
+                                        <select value={record.outcome} onChange={(e) => setRecord({ ...record, outcome: e.target.value as FiringOutcome })}>
+                                            {(Object.keys(OUTCOME_LABELS) as FiringOutcome[]).map(o => (
+                                                <option key={o} value={o}>{OUTCOME_LABELS[o]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label>Fired On</label>
+                                        <input type="date" value={record.fired_on} onChange={(e) => setRecord({ ...record, fired_on: e.target.value })} />
+                                    </div>
+                                    <div style={{ gridColumn: '1 / -1' }}>
+                                        <label>Notes</label>
+                                        <textarea value={record.notes} onChange={(e) => setRecord({ ...record, notes: e.target.value })} rows={3} style={{ width: '100%' }} />
+                                    </div>
+                                    <div style={{ gridColumn: '1 / -1', display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                                        {record.photo && <img src={record.photo} alt="" style={{ width: '64px', height: '64px', objectFit: 'cover', borderRadius: '0.25rem' }} />}
+                                        <label style={{ ...smallButton, cursor: 'pointer', margin: 0 }}>
+                                            <Camera size={14} /> {record.photo ? 'Replace Photo' : 'Add Photo'}
+                                            <input type="file" accept="image/*" onChange={handlePhoto} style={{ display: 'none' }} />
+                                        </label>
+                                        {record.photo && (
+                                            <button style={smallButton} onClick={() => setRecord({ ...record, photo: undefined })}>Remove Photo</button>
+                                        )}
+                                    </div>
+                                </div>
+                                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                                    <button onClick={saveRecord}>Save</button>
+                                    <button onClick={() => { setEditingId(null); setRecord(null); setError(""); }} style={{ background: '#334155' }}>Cancel</button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,7 @@
+import createPlotlyComponent from 'react-plotly.js/factory';
+import Plotly from 'plotly.js-dist-min';
+
+// The charts and the PNG export share this one Plotly bundle. react-plotly.js's default
+// export brings its own copy of plotly.js, so the component is built from the factory.
+export { Plotly };
+export const Plot = createPlotlyComponent(Plotly);
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { ScheduleResult, UnitSystem } from '../lib/annealingLogic';
+import { auditProgram, parseControllerProgram } from '../lib/programAudit';
+import type { AuditFinding, ParsedProgram } from '../lib/programAudit';
+import { AnnealingChart } from './AnnealingChart';
+
+interface ProgramAuditProps {
+    recommended: ScheduleResult; // The model's schedule for the piece on the form
+    units: UnitSystem;
+    glassName: string;
+    onClose: () => void;
+}
+
+export const ProgramAudit: React.FC<ProgramAuditProps> = ({ recommended, units, glassName, onClose }) => {
+    const [text, setText] = useState<string>("");
+
+    const unit = units === 'metric' ? '°C' : '°F';
+    const blocked = recommended.issues.filter(i => i.severity === 'error');
+
+    let program: ParsedProgram | null = null;
+    let findings: AuditFinding[] = [];
+    let error = "";
+    if (text.trim() && blocked.length === 0) {
+        try {
+            program = parseControllerProgram(text, units, recommended.start_temp);
+            findings = auditProgram(program, recommended, units);
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err);
+        }
+    }
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <h2 style={{ color: '#60a5fa', marginBottom: '0.5rem' }}>Audit a Program</h2>
+                <p style={{ color: '#94a3b8', fontSize: '0.875rem', marginTop: 0 }}>
+                    Paste a program you already fire and compare it with the model's schedule for the piece on the
+                    form ({glassName}). Rate-style (RA / {unit} / HLD) and Digitry cumulative (TEMP / TIME) listings both work.
+                </p>
+
+                {blocked.length > 0 ? (
+                    blocked.map((issue, i) => (
+                        <p key={i} style={{ color: '#f87171', fontSize: '0.875rem' }}>{issue.message}</p>
+                    ))
+                ) : (
+                    <>
+                        <textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            rows={8}
+                            placeholder={`RA1 : 400\n${unit}1 : ${units === 'metric' ? 516 : 961}\nHLD1 : 01:00\nRA2 : AFAP\n...`}
+                            style={{ width: '100%', fontFamily: 'monospace' }}
+                        />
+                        {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+                        {program && (
+                            <>
+                                <div style={{ margin: '1rem 0', textAlign: 'left' }}>
+                                    {findings.length === 0 ? (
+                                        <p style={{ color: '#22c55e', fontSize: '0.875rem', margin: 0 }}>
+                                            No problems found: the soak and cooling are at least as gentle as the model's.
+                                        </p>
+                                    ) : findings.map((finding, i) => (
+                                        <p key={i} style={{ color: finding.severity === 'error' ? '#f87171' : '#eab308', fontSize: '0.875rem', margin: '0.25rem 0' }}>
+                                            {finding.segment !== null && <strong>Seg {finding.segment}: </strong>}
+                                            {finding.message}
+                                        </p>
+                                    ))}
+                                    {program.notes.map((note, i) => (
+                                        <p key={i} style={{ color: '#64748b', fontSize: '0.8rem', margin: '0.25rem 0' }}>{note}</p>
+                                    ))}
+                                </div>
+                                <AnnealingChart points={recommended.points} units={units} program={program.points} />
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { UnitSystem } from '../lib/annealingLogic';
+import { EMPTY_STAGE } from '../lib/programStages';
+import type { StageForm } from '../lib/programStages';
+
+interface ProgramStagesEditorProps {
+    stages: StageForm[];
+    units: UnitSystem;
+    onChange: (stages: StageForm[]) => void;
+}
+
+export const ProgramStagesEditor: React.FC<ProgramStagesEditorProps> = ({ stages, units, onChange }) => {
+    const tempUnit = units === 'metric' ? '°C' : '°F';
+
+    const update = (index: number, change: Partial<StageForm>) => {
+        onChange(stages.map((s, i) => i === index ? { ...s, ...change } : s));
+    };
+
+    const checkboxLabel: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '4px', fontSize: '0.75rem', cursor: 'pointer', fontWeight: 'normal', margin: 0 };
+
+    return (
+        <div>
+            <p style={{ color: '#888', fontSize: '0.8rem', marginTop: 0 }}>
+                Stages run in order. The anneal soak and cool-down are added automatically after the last stage.
+            </p>
+            {stages.map((stage, i) => (
+                <div key={i} style={{ display: 'grid', gridTemplateColumns: '1.5fr 1fr 1fr 1fr auto', gap: '0.75rem', marginBottom: '0.75rem', alignItems: 'end' }}>
+                    <div>
+                        <label>Stage {i + 1}</label>
+                        <input value={stage.label} onChange={(e) => update(i, { label: e.target.value })} placeholder="e.g. Bubble Squeeze" />
+                    </div>
+                    <div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                            <label>Rate ({tempUnit}/hr)</label>
+                            <label style={checkboxLabel}>
+                                <input type="checkbox" checked={stage.afap} onChange={(e) => update(i, { afap: e.target.checked })} style={{ width: 'auto', margin: 0 }} />
+                                AFAP
+                            </label>
+                        </div>
+                        <input type="number" value={stage.afap ? "" : stage.rate} disabled={stage.afap} onChange={(e) => update(i, { rate: e.target.value })} placeholder={stage.afap ? "AFAP" : ""} />
+                    </div>
+                    <div>
+                        <label>Target ({tempUnit})</label>
+                        <input type="number" value={stage.target} onChange={(e) => update(i, { target: e.target.value })} />
+                    </div>
+                    <div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                            <label>Hold (min)</label>
+                            <label style={checkboxLabel}>
+                                <input type="checkbox" checked={stage.indefinite} onChange={(e) => update(i, { indefinite: e.target.checked })} style={{ width: 'auto', margin: 0 }} />
+                                Indef.
+                            </label>
+                        </div>
+                        <input type="number" value={stage.indefinite ? "" : stage.hold} disabled={stage.indefinite} onChange={(e) => update(i, { hold: e.target.value })} placeholder={stage.indefinite ? "Indefinite" : "0"} />
+                    </div>
+                    <button
+                        onClick={() => onChange(stages.filter((_, j) => j !== i))}
+                        style={{ width: 'auto', padding: '0.75rem', background: 'transparent', border: '1px solid #334155', color: '#94a3b8' }}
+                        title="Remove stage"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={() => onChange([...stages, { ...EMPTY_STAGE }])}
+                style={{ width: 'auto', padding: '4px 12px', background: 'transparent', border: '1px solid #334155', color: '#94a3b8', fontSize: '0.8rem', display: 'flex', alignItems: 'center', gap: '4px' }}
+            >
+                <Plus size={14} /> Add Stage
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Eye, Plus, Trash2, X } from 'lucide-react';
+import type { ScheduleRequest, ScheduleResult, ShapeFactor } from '../lib/annealingLogic';
+import { FIRING_KIND_LABELS, planProject } from '../lib/projectPlanner';
+import type { FiringKind, FiringPlan, ProjectBase } from '../lib/projectPlanner';
+
+interface ProjectPlannerProps {
+    base: Omit<ProjectBase, 'kilnPowerKw'>;
+    glassName: string;
+    onShowResult: (result: ScheduleResult, request: ScheduleRequest) => void;
+    onClose: () => void;
+}
+
+const SHAPE_LABELS: Record<ShapeFactor, string> = {
+    "slab": "Flat Slab",
+    "uneven": "Uneven / Tack",
+    "hollow_deep": "Hollow / Deep / 3D",
+};
+
+export const ProjectPlanner: React.FC<ProjectPlannerProps> = ({ base, glassName, onShowResult, onClose }) => {
+    const [firings, setFirings] = useState<FiringPlan[]>([
+        { label: "Fuse Blank", kind: "full_fuse" },
+        { label: "Slump", kind: "slump" },
+    ]);
+    const [kilnPower, setKilnPower] = useState<string>(base.kiln?.power_kw ? base.kiln.power_kw.toString() : "2.4");
+
+    const update = (index: number, change: Partial<FiringPlan>) => {
+        setFirings(firings.map((f, i) => i === index ? { ...f, ...change } : f));
+    };
+
+    const plan = planProject({ ...base, kilnPowerKw: parseFloat(kilnPower) || 0 }, firings);
+    const lengthUnit = base.units === 'metric' ? 'cm' : 'in';
+
+    const cell: React.CSSProperties = { padding: '0.5rem', borderBottom: '1px solid #334155', textAlign: 'left' };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <button className="modal-close" onClick={onClose}>
+                    <X size={20} />
+                </button>
+                <h2 style={{ color: '#60a5fa', marginBottom: '0.5rem' }}>Project Planner</h2>
+                <p style={{ color: '#94a3b8', fontSize: '0.875rem', marginTop: 0 }}>
+                    {glassName}, starting at {base.thickness} {lengthUnit} ({SHAPE_LABELS[base.shape]}). Each firing picks up the thickness and shape left by the one before.
+                </p>
+
+                {firings.map((firing, i) => (
+                    <div key={i} style={{ display: 'grid', gridTemplateColumns: '1.5fr 1fr 1fr auto', gap: '0.75rem', marginBottom: '0.75rem', alignItems: 'center' }}>
+                        <input value={firing.label} onChange={(e) => update(i, { label: e.target.value })} placeholder={`Firing ${i + 1}`} />
+                        <select value={firing.kind} onChange={(e) => update(i, { kind: e.target.value as FiringKind })}>
+                            {(Object.keys(FIRING_KIND_LABELS) as FiringKind[]).map(k => (
+                                <option key={k} value={k}>{FIRING_KIND_LABELS[k]}</option>
+                            ))}
+                        </select>
+                        <select value={firing.shape ?? ""} onChange={(e) => update(i, { shape: (e.target.value || undefined) as ShapeFactor | undefined })}>
+                            <option value="">Shape: Auto</option>
+                            {(Object.keys(SHAPE_LABELS) as ShapeFactor[]).map(sh => (
+                                <option key={sh} value={sh}>{SHAPE_LABELS[sh]}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => setFirings(firings.filter((_, j) => j !== i))}
+                            disabled={firings.length === 1}
+                            style={{ width: 'auto', padding: '0.75rem', background: 'transparent', border: '1px solid #334155', color: '#94a3b8' }}
+                            title="Remove firing"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                ))}
+
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'end', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+                    <button
+                        onClick={() => setFirings([...firings, { label: "", kind: "fire_polish" }])}
+                        style={{ width: 'auto', padding: '4px 12px', background: 'transparent', border: '1px solid #334155', color: '#94a3b8', fontSize: '0.8rem', display: 'flex', alignItems: 'center', gap: '4px' }}
+                    >
+                        <Plus size={14} /> Add Firing
+                    </button>
+                    <div style={{ marginLeft: 'auto', width: '160px' }}>
+                        <label>Kiln Power (kW)</label>
+                        <input type="number" step="0.1" value={kilnPower} onChange={(e) => setKilnPower(e.target.value)} />
+                    </div>
+                </div>
+
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', color: '#cbd5e1' }}>
+                    <thead>
+                        <tr style={{ color: '#94a3b8' }}>
+                            <th style={cell}>#</th>
+                            <th style={cell}>Firing</th>
+                            <th style={cell}>Thickness</th>
+                            <th style={cell}>Shape</th>
+                            <th style={cell}>Hours</th>
+                            <th style={cell}>kWh</th>
+                            <th style={cell}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {plan.firings.map((f, i) => (
+                            <tr key={i}>
+                                <td style={cell}>{i + 1}</td>
+                                <td style={cell}>
+                                    {f.plan.label || FIRING_KIND_LABELS[f.plan.kind]}
+                                    {f.result.issues.map((issue, j) => (
+                                        <div key={j} style={{ color: issue.severity === "error" ? '#f87171' : '#eab308', fontSize: '0.75rem' }}>{issue.message}</div>
+                                    ))}
+                                </td>
+                                <td style={cell}>{f.thickness.toFixed(base.units === 'metric' ? 2 : 3)} {lengthUnit}</td>
+                                <td style={cell}>{SHAPE_LABELS[f.shape]}</td>
+                                <td style={cell}>{f.hours.toFixed(1)}</td>
+                                <td style={cell}>{f.energy_kwh.toFixed(1)}</td>
+                                <td style={cell}>
+                                    <button
+                                        onClick={() => onShowResult(f.result, f.request)}
+                                        disabled={f.result.segments.length === 0}
+                                        style={{ width: 'auto', padding: '4px 8px', background: 'transparent', border: '1px solid #334155', color: '#94a3b8' }}
+                                        title="Show this firing's schedule"
+                                    >
+                                        <Eye size={14} />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                        <tr style={{ fontWeight: 700, color: '#e2e8f0' }}>
+                            <td style={cell}></td>
+                            <td style={cell}>Total</td>
+                            <td style={cell}></td>
+                            <td style={cell}></td>
+                            <td style={cell}>{plan.total_hours.toFixed(1)}</td>
+                            <td style={cell}>{plan.total_energy_kwh.toFixed(1)}</td>
+                            <td style={cell}></td>
+                        </tr>
+                    </tbody>
+                </table>
+                <p style={{ color: '#64748b', fontSize: '0.75rem', marginTop: '1rem' }}>
+                    Energy is a rough estimate from a generic kiln heat-loss model. Kiln time excludes cooling below the unload temperature.
+                </p>
+            </div>
+        </div>
+    );
+};
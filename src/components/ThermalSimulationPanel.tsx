@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Thermometer, X } from 'lucide-react';
+import type { ThermalSimulation, ThermalSimulationInput } from '../lib/thermalSimulation';
+
+interface ThermalSimulationPanelProps {
+    input: ThermalSimulationInput;
+    simulation: ThermalSimulation | null;
+    onResult: (simulation: ThermalSimulation | null) => void;
+}
+
+export const ThermalSimulationPanel: React.FC<ThermalSimulationPanelProps> = ({ input, simulation, onResult }) => {
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string>("");
+    const worker = useRef<Worker | null>(null);
+
+    // Don't leave a simulation running after the panel goes away
+    useEffect(() => () => worker.current?.terminate(), []);
+
+    const tempUnit = input.result.units === 'metric' ? '°C' : '°F';
+
+    const run = () => {
+        worker.current?.terminate();
+        const w = new Worker(new URL('../lib/thermalSimulation.worker.ts', import.meta.url), { type: 'module' });
+        worker.current = w;
+        setRunning(true);
+        setError("");
+        w.onmessage = (e: MessageEvent<ThermalSimulation>) => {
+            onResult(e.data);
+            setRunning(false);
+            w.terminate();
+        };
+        w.onerror = (e) => {
+            setError(`Simulation failed: ${e.message}`);
+            setRunning(false);
+            w.terminate();
+        };
+        w.postMessage(input);
+    };
+
+    const smallButton: React.CSSProperties = {
+        width: 'auto',
+        padding: '4px 12px',
+        background: 'transparent',
+        border: '1px solid #334155',
+        color: '#94a3b8',
+        fontSize: '0.8rem',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px'
+    };
+    const cell: React.CSSProperties = { padding: '0.5rem', borderBottom: '1px solid #334155', textAlign: 'left' };
+    const stress = (value: number, units: string) => `${Math.abs(value) < 10 ? value.toFixed(2) : Math.round(value)} ${units}`;
+
+    return (
+        <div style={{ marginTop: '1rem' }}>
+            <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                <button style={smallButton} onClick={run} disabled={running} title="Solve heat flow through the glass along this schedule">
+                    <Thermometer size={14} /> {running ? 'Simulating...' : 'Simulate Heat Flow'}
+                </button>
+                {simulation && (
+                    <>
+                        <small style={{ color: '#94a3b8' }}>
+                            {simulation.sides === 2 ? 'Heat through both faces' : 'Heat through one face (back insulated)'}
+                        </small>
+                        <button style={smallButton} onClick={() => onResult(null)} title="Remove the simulation">
+                            <X size={14} /> Clear
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {error && <p style={{ color: '#f87171', fontSize: '0.875rem' }}>{error}</p>}
+
+            {simulation && (
+                <>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', color: '#cbd5e1', marginTop: '1rem' }}>
+                        <thead>
+                            <tr style={{ color: '#94a3b8' }}>
+                                <th style={cell}>Segment</th>
+                                <th style={cell}>Time (h)</th>
+                                <th style={cell}>Peak Core - Surface</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {simulation.segments.map((seg, i) => (
+                                <tr key={i}>
+                                    <td style={cell}>{seg.label}</td>
+                                    <td style={cell}>{seg.start.toFixed(1)} - {seg.end.toFixed(1)}</td>
+                                    <td style={cell}>{seg.peak_delta > 0 ? '+' : ''}{seg.peak_delta.toFixed(1)}{tempUnit}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {simulation.residual && (
+                        <p style={{ fontSize: '0.875rem', color: '#cbd5e1' }}>
+                            Estimated residual stress: {stress(Math.abs(simulation.residual.surface), simulation.residual.units)}
+                            {simulation.residual.surface <= 0 ? ' compression' : ' tension'} at the surface,
+                            {' '}{stress(simulation.residual.tension, simulation.residual.units)} tension inside.
+                        </p>
+                    )}
+                    {simulation.notes.map((note, i) => (
+                        <p key={i} style={{ color: '#64748b', fontSize: '0.8rem', margin: '0.25rem 0' }}>{note}</p>
+                    ))}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { GLASS_LIBRARY, calculateSchedule } from './annealingLogic';
+import type { ScheduleRequest } from './annealingLogic';
+
+const bullseye = GLASS_LIBRARY["Bullseye (COE 90)"];
+const request = (extra: Partial<ScheduleRequest> = {}): ScheduleRequest => ({
+    glass: "Bullseye (COE 90)",
+    thickness: 0.25,
+    units: 'imperial',
+    ...extra
+});
+
+describe("calculateSchedule", () => {
+    it("soaks at the anneal temperature and cools through the strain point to unload", () => {
+        const result = calculateSchedule(request());
+        expect(result.issues).toEqual([]);
+        expect(result.start_temp).toBe(150);
+        expect(result.segments.map(s => s.purpose)).toEqual(["ramp_to_soak", "anneal_cool", "strain_cool", "final_cool"]);
+        expect(result.segments[0].target).toBe(bullseye.anneal_temp);
+        expect(result.segments[1].target).toBe(bullseye.strain_point);
+        expect(result.segments.at(-1)!.target).toBe(150);
+        expect(result.points.at(-1)!.temp).toBe(150);
+    });
+
+    it("soaks longer and cools slower for thicker pieces", () => {
+        const thin = calculateSchedule(request());
+        const thick = calculateSchedule(request({ thickness: 1 }));
+        expect(thick.segments[0].hold).toBeGreaterThan(thin.segments[0].hold as number);
+        expect(thick.segments[1].rate).toBeLessThan(thin.segments[1].rate as number);
+    });
+
+    it("gives the same schedule in metric, converted", () => {
+        const imperial = calculateSchedule(request());
+        const metric = calculateSchedule(request({ thickness: 0.635, units: 'metric' }));
+        metric.segments.forEach((seg, i) => {
+            const f = imperial.segments[i];
+            expect(seg.target).toBeCloseTo((f.target - 32) * 5 / 9, 6);
+            expect(seg.hold).toBeCloseTo(f.hold as number, 6);
+            if (f.rate !== "AFAP") expect(seg.rate).toBeCloseTo(f.rate * 5 / 9, 6);
+        });
+    });
+
+    it("heats to the glass's fuse temperature and holds there", () => {
+        const result = calculateSchedule(request({ mode: "full_fuse" }));
+        const process = result.segments.find(s => s.purpose === "process")!;
+        expect(process.target).toBe(bullseye.full_fuse_temp);
+        expect(process.hold).toBe(15);
+        expect(result.segments.find(s => s.purpose === "cool_to_anneal")?.target).toBe(bullseye.anneal_temp);
+    });
+
+    it("follows a custom program's stages before annealing", () => {
+        const result = calculateSchedule(request({
+            mode: "custom",
+            stages: [{ label: "Up", rate: 300, target: 1200, hold: 10 }, { label: "Top", rate: "AFAP", target: 1400, hold: "indefinite" }]
+        }));
+        expect(result.issues).toEqual([]);
+        expect(result.segments.slice(0, 2).map(s => [s.label, s.rate, s.target, s.hold])).toEqual([
+            ["Up", 300, 1200, 10],
+            ["Top", "AFAP", 1400, "indefinite"]
+        ]);
+    });
+
+    it("stops at the unload temperature the caller asks for", () => {
+        const result = calculateSchedule(request({ cooling: { unload_temp: 200 } }));
+        expect(result.segments.at(-1)!.target).toBe(200);
+    });
+
+    it("returns no segments when a value is invalid", () => {
+        const result = calculateSchedule(request({ thickness: 0 }));
+        expect(result.segments).toEqual([]);
+        expect(result.issues).toContainEqual(expect.objectContaining({ severity: "error", field: "thickness" }));
+    });
+
+    it("asks for temperatures on a glass without known ones", () => {
+        const result = calculateSchedule(request({ glass: "Custom" }));
+        expect(result.issues.map(i => i.field)).toEqual(["anneal_temp", "strain_point"]);
+        expect(calculateSchedule(request({ glass: "Custom", anneal_temp: 960, strain_point: 900 })).issues).toEqual([]);
+    });
+
+    it("rejects stage, kiln and cooling values the schedule can't follow", () => {
+        const fields = (extra: Partial<ScheduleRequest>) => calculateSchedule(request(extra)).issues.map(i => i.field);
+        expect(fields({ mode: "custom", stages: [{ label: "", rate: 0, target: 1000, hold: -1 }] })).toEqual(["stages", "stages"]);
+        expect(fields({ mode: "full_fuse", bubble_squeeze: { area: -1, layers: 2 } })).toEqual(["bubble_squeeze"]);
+        expect(fields({ kiln: { max_heat_rate: 0, cooling_tau_hours: 3, power_kw: 2, volume_liters: 50 } })).toEqual(["kiln"]);
+        expect(fields({ cooling: { unload_temp: 60 } })).toEqual(["unload_temp"]);
+        expect(fields({ anneal_temp: NaN })).toEqual(["anneal_temp"]);
+    });
+
+    it("flags and re-times heating ramps the kiln can't keep up with", () => {
+        const kiln = { max_heat_rate: 200, cooling_tau_hours: 3, power_kw: 2, volume_liters: 50 };
+        const [preheat, process] = calculateSchedule(request({ mode: "full_fuse", kiln })).segments;
+        expect(preheat.kiln_warning).toMatch(/at most 200/);
+        expect(preheat.ramp_hours).toBeCloseTo((961 - 150) / 200, 6);
+        expect(process.ramp_hours).toBeCloseTo((1490 - 961) / 200, 6);
+    });
+});
@@ -6,7 +6,7 @@ export type GlassType =
     | "Satake (COE 110-120)"
     | "Custom";
 
-export type ScheduleMode = "anneal_only" | "tack_fuse" | "full_fuse" | "cast" | "slump";
+export type ScheduleMode = "anneal_only" | "tack_fuse" | "full_fuse" | "cast" | "slump" | "custom";
 export type UnitSystem = 'metric' | 'imperial';
 
 // New Physics Enums
@@ -28,7 +28,9 @@ export interface GlassProperties {
     anneal_temp: number | null; // Fahrenheit
     strain_point: number | null; // Fahrenheit
     brand_factor: number;       // Multiplier for cooling rates (1.0 = standard soft glass)
-    slump_temp?: number;
+    coe: number | null;         // Coefficient of expansion (x10^-7 /°C), null = unknown
+    density?: number;           // g/cm³, for estimating how much glass fills a mold
+    slump_temp?: number;        // Process temperatures, Fahrenheit
     tack_fuse_temp?: number;
     full_fuse_temp?: number;
     cast_temp?: number;
@@ -39,6 +41,8 @@ export const GLASS_LIBRARY: Record<GlassType, GlassProperties> = {
         anneal_temp: 961, // 516°C
         strain_point: 900, // 482°C
         brand_factor: 1.0,
+        coe: 90,
+        density: 2.52,
         slump_temp: 1225,
         tack_fuse_temp: 1350,
         full_fuse_temp: 1490,
@@ -48,6 +52,8 @@ export const GLASS_LIBRARY: Record<GlassType, GlassProperties> = {
         anneal_temp: 950, // 510°C
         strain_point: 850, // 455°C
         brand_factor: 1.0,
+        coe: 96,
+        density: 2.50,
         slump_temp: 1225,
         tack_fuse_temp: 1350,
         full_fuse_temp: 1465,
@@ -57,6 +63,8 @@ export const GLASS_LIBRARY: Record<GlassType, GlassProperties> = {
         anneal_temp: 968, // 520°C
         strain_point: 860, // 460°C
         brand_factor: 1.0,
+        coe: 104,
+        density: 2.53,
         slump_temp: 1200,
         tack_fuse_temp: 1350,
         full_fuse_temp: 1450,
@@ -66,6 +74,8 @@ export const GLASS_LIBRARY: Record<GlassType, GlassProperties> = {
         anneal_temp: 1050, // 565°C
         strain_point: 950, // 510°C
         brand_factor: 1.8, // 3x tolerance but 1.8 conservative start
+        coe: 33,
+        density: 2.23,
         slump_temp: 1300,
         tack_fuse_temp: 1600,
         full_fuse_temp: 2000,
@@ -75,6 +85,8 @@ export const GLASS_LIBRARY: Record<GlassType, GlassProperties> = {
         anneal_temp: 896, // 480°C
         strain_point: 806, // 430°C
         brand_factor: 0.75, // Very high lead
+        coe: 115, // Nominal 110-120
+        density: 3.05,
         slump_temp: 1150,
         tack_fuse_temp: 1300,
         full_fuse_temp: 1400,
@@ -83,41 +95,240 @@ export const GLASS_LIBRARY: Record<GlassType, GlassProperties> = {
     "Custom": {
         anneal_temp: null,
         strain_point: null,
-        brand_factor: 1.0
+        brand_factor: 1.0,
+        coe: null
     },
 };
 
+export type PointType = 'heat' | 'soak' | 'cool' | 'off' | 'process' | 'process_hold';
+
 export interface AnnealingSchedulePoint {
     time: number; // Cumulative hours
-    temp: number; // Fahrenheit
+    temp: number; // Result units (°F or °C)
     label?: string;
-    segment_type: 'heat' | 'soak' | 'cool' | 'off' | 'process' | 'process_hold';
+    segment_type: PointType;
+}
+
+// Controller-agnostic segment model.
+// Every segment is "ramp at `rate` to `target`, then hold for `hold`".
+export type SegmentRate = number | "AFAP"; // Degrees per hour in result units, or As Fast As Possible
+export type SegmentHold = number | "indefinite"; // Minutes, or hold until skipped
+
+export type SegmentPurpose =
+    | "preheat"
+    | "mold_dry"
+    | "bubble_squeeze"
+    | "process"
+    | "custom_stage"
+    | "ramp_to_soak"
+    | "cool_to_anneal"
+    | "anneal_cool"
+    | "strain_cool"
+    | "final_cool";
+
+export interface ScheduleSegment {
+    purpose: SegmentPurpose;
+    label: string;        // Short name shown by controller formatters, e.g. "Anneal -> Strain"
+    rate: SegmentRate;
+    target: number;       // Result units
+    hold: SegmentHold;
+    ramp_hours: number;   // Expected time to reach target (estimated for AFAP)
+    reach_label: string;  // Chart label for the point at the end of the ramp
+    hold_label?: string;  // Chart label for the point at the end of the hold (omitted = no hold point)
+    note?: string;        // Instruction for the operator, printed with the segment
+    natural_cool?: {      // The kiln cools freely along its natural curve (chart draws the curve, not a line)
+        tau_hours: number;
+        ambient: number;  // Result units
+    };
+    kiln_warning?: string; // Why the kiln can't follow this segment as programmed
+}
+
+// One user-defined heat/hold step of a "custom" program, in the caller's units
+export interface ProgramStage {
+    label: string;
+    rate: SegmentRate;   // Degrees per hour, or AFAP
+    target: number;
+    hold: SegmentHold;   // Minutes, or hold until skipped
+}
+
+// Optional bubble squeeze before fusing/casting
+export interface BubbleSqueezeOptions {
+    layers: number; // Number of stacked layers
+    area: number;   // Footprint area, in² (imperial) or cm² (metric)
+}
+
+// Cool-down settings, in the caller's units
+export type CrashCool = "afap" | "rate" | "natural";
+
+export interface CoolingOptions {
+    unload_temp?: number;   // Safe to open the kiln. Default 150 °F
+    crash_cool?: CrashCool; // From process temperature down to the anneal soak. Default "afap"
+    crash_rate?: number;    // Degrees per hour, for "rate"
+    vent_lid?: boolean;     // Lid cracked open during the crash cool
+}
+
+// What a particular kiln can physically do
+export interface KilnProperties {
+    max_heat_rate: number;     // °F/hr the elements can manage, whatever the request's units
+    cooling_tau_hours: number; // Natural cooling time constant with the lid closed
+    power_kw: number;
+    volume_liters: number;     // Usable interior volume
+}
+
+// A piece's size and where it sits on the kiln floor, in the caller's units (cm or inches)
+export interface PiecePlacement {
+    length: number;       // Longest side, or the diameter of a round piece
+    width?: number;       // Omitted = round piece
+    kiln_length?: number; // Interior floor; omitted = kiln size unknown
+    kiln_width?: number;  // Omitted = round floor of diameter kiln_length
+    edge_gap?: number;    // Closest the piece comes to a wall or elements; omitted = centered
+}
+
+// Assumed speed of an AFAP ramp when estimating its duration
+const AFAP_RATE_F = 1000;
+
+// A closed kiln cools towards ambient as T = ambient + (T0 - ambient) * e^(-t / tau).
+// Venting the lid roughly halves the time constant.
+export const AMBIENT_F = 70;
+export const NATURAL_COOL_TAU_HOURS = 3;
+const VENT_TAU_FACTOR = 0.5;
+
+// The ScheduleRequest value an issue is about (cooling values by their own name), for showing it beside that input
+export type ScheduleField =
+    | "thickness"
+    | "anneal_temp"
+    | "strain_point"
+    | "process_temp"
+    | "process_hold_minutes"
+    | "process_ramp"
+    | "mold_dry_temp"
+    | "mold_dry_hours"
+    | "stages"
+    | "bubble_squeeze"
+    | "kiln"
+    | "unload_temp"
+    | "crash_rate"
+    | "placement";
+
+/**
+ * Everything calculateSchedule takes. Temperatures (°C or °F), rates (degrees per hour) and
+ * lengths (cm or inches) are all in `units`, as is the result, except for the glass and kiln
+ * properties: those are always °F, as GLASS_LIBRARY and saved profiles hold them.
+ * Durations name their unit.
+ */
+export interface ScheduleRequest {
+    glass: GlassType | GlassProperties;    // Library key, or the properties of any glass profile (°F)
+    thickness: number;
+    units: UnitSystem;
+    mode?: ScheduleMode;                   // Default "anneal_only"
+    shape?: ShapeFactor;                   // Default "slab"
+    conservativeness?: Conservativeness;   // Default "fast"
+    anneal_temp?: number;                  // Overrides the glass's; required for glasses without known temps
+    strain_point?: number;
+    process_temp?: number;                 // Omitted = the glass's temperature for the mode
+    process_hold_minutes?: number;         // Omitted = a default for the mode
+    process_hold_indefinite?: boolean;     // Hold at process temperature until skipped
+    process_ramp?: number;                 // One rate all the way up; omitted = a rate per temperature band
+    mold_dry_hours?: number;               // Cast mode only
+    mold_dry_temp?: number;                // Default 250 °F
+    stages?: ProgramStage[];               // Custom mode only
+    bubble_squeeze?: BubbleSqueezeOptions; // Fuse and cast modes only
+    cooling?: CoolingOptions;
+    kiln?: KilnProperties;                 // Limits ramps to what the kiln can do (°F/hr); omitted = an ideal kiln
+    placement?: PiecePlacement;            // Large or off-center pieces soak longer and cool slower through rate 1
+}
+
+export interface ScheduleIssue {
+    severity: "error" | "warning"; // Errors leave the schedule empty; warnings are worked around
+    field: ScheduleField;
+    message: string;
 }
 
 export interface ScheduleResult {
+    units: UnitSystem;
+    start_temp: number;   // Result units
+    logic_summary: string;
+    segments: ScheduleSegment[];
     points: AnnealingSchedulePoint[];
-    paragon_instructions: string;
-    digitry_instructions: string;
+    issues: ScheduleIssue[]; // Any error means no segments were generated
 }
 
-export function calculateSchedule(
-    glassType: GlassType,
-    thickness: number, // In current units (cm or inches)
-    mode: ScheduleMode = "anneal_only",
-    units: UnitSystem = "imperial",
-    shape: ShapeFactor = "slab",
-    conservativeness: Conservativeness = "fast",
-    customAnneal?: number,
-    customStrain?: number,
-    customProcessTemp?: number,
-    customProcessHoldMins?: number,
-    customProcessRamp?: number,
-    moldDryHours?: number,
-    moldDryTemp?: number,
-    processHoldIndefinite?: boolean
-): ScheduleResult {
+// Chart colouring for the ramp and hold end of each segment purpose
+const POINT_TYPES: Record<SegmentPurpose, { reach: PointType; hold: PointType }> = {
+    "preheat": { reach: 'heat', hold: 'heat' },
+    "mold_dry": { reach: 'heat', hold: 'process' },
+    "bubble_squeeze": { reach: 'heat', hold: 'process' },
+    "process": { reach: 'process', hold: 'process' },
+    "custom_stage": { reach: 'process', hold: 'process' },
+    "ramp_to_soak": { reach: 'heat', hold: 'soak' },
+    "cool_to_anneal": { reach: 'cool', hold: 'soak' },
+    "anneal_cool": { reach: 'cool', hold: 'cool' },
+    "strain_cool": { reach: 'cool', hold: 'cool' },
+    "final_cool": { reach: 'cool', hold: 'cool' },
+};
+
+/**
+ * Expands segments into the cumulative time/temperature points used by the chart.
+ */
+export function buildSchedulePoints(segments: ScheduleSegment[], startTemp: number): AnnealingSchedulePoint[] {
+    let currentTime = 0;
+    const points: AnnealingSchedulePoint[] = [
+        { time: currentTime, temp: startTemp, label: "Start", segment_type: 'off' }
+    ];
+
+    segments.forEach((seg) => {
+        const types = POINT_TYPES[seg.purpose];
+        const prevTemp = points[points.length - 1].temp;
+        // User stages can go either way; colour a downward stage as cooling
+        const reachType = seg.purpose === "custom_stage" && seg.target < prevTemp ? 'cool' : types.reach;
+        if (seg.natural_cool) {
+            // Trace the exponential curve rather than a straight line
+            const { tau_hours, ambient } = seg.natural_cool;
+            const STEPS = 8;
+            for (let s = 1; s < STEPS; s++) {
+                const t = seg.ramp_hours * s / STEPS;
+                points.push({ time: currentTime + t, temp: ambient + (prevTemp - ambient) * Math.exp(-t / tau_hours), segment_type: reachType });
+            }
+        }
+        currentTime += seg.ramp_hours;
+        points.push({ time: currentTime, temp: seg.target, label: seg.reach_label, segment_type: reachType });
+
+        if (seg.hold_label !== undefined) {
+            // Indefinite holds take "0 time" in the plot, effectively a pause point
+            if (seg.hold !== "indefinite") currentTime += seg.hold / 60;
+            const holdType = seg.hold === "indefinite" ? 'process_hold' : types.hold;
+            points.push({ time: currentTime, temp: seg.target, label: seg.hold_label, segment_type: holdType });
+        }
+    });
+
+    return points;
+}
+
+export function calculateSchedule(request: ScheduleRequest): ScheduleResult {
+    const {
+        glass,
+        thickness,
+        units,
+        mode = "anneal_only",
+        shape = "slab",
+        conservativeness = "fast",
+        anneal_temp: customAnneal,
+        strain_point: customStrain,
+        process_temp: customProcessTemp,
+        process_hold_minutes: customProcessHoldMins,
+        process_hold_indefinite: processHoldIndefinite,
+        process_ramp: customProcessRamp,
+        mold_dry_hours: moldDryHours,
+        mold_dry_temp: moldDryTemp,
+        stages: customStages = [],
+        bubble_squeeze: bubbleSqueeze,
+        cooling = {},
+        kiln,
+        placement
+    } = request;
+
     // 1. Get Glass Properties
-    const props = GLASS_LIBRARY[glassType];
+    const props = typeof glass === "string" ? GLASS_LIBRARY[glass] : glass;
     let annealTemp = props.anneal_temp;
     let strainPoint = props.strain_point;
     const brandFactor = props.brand_factor;
@@ -125,20 +336,30 @@ export function calculateSchedule(
     // Helpers
     const toF = (t: number) => units === 'metric' ? (t * 9 / 5) + 32 : t;
     const toOutputTemp = (f: number) => units === 'metric' ? (f - 32) * 5 / 9 : f;
-
-    // Custom Overrides
-    if (glassType === "Custom") {
-        annealTemp = customAnneal ? toF(customAnneal) : 900;
-        strainPoint = customStrain ? toF(customStrain) : 700;
-    } else {
-        if (customAnneal) annealTemp = toF(customAnneal);
-        if (customStrain) strainPoint = toF(customStrain);
+    const showTemp = (f: number) => `${Math.round(toOutputTemp(f))}${units === 'metric' ? "°C" : "°F"}`;
+    const startTemp = 150; // F
+
+    const issues: ScheduleIssue[] = [];
+    const error = (field: ScheduleField, message: string) => issues.push({ severity: "error", field, message });
+    const warn = (field: ScheduleField, message: string) => issues.push({ severity: "warning", field, message });
+    const invalid = (): ScheduleResult => ({ units, start_temp: toOutputTemp(startTemp), logic_summary: "", segments: [], points: [], issues });
+
+    if (!(thickness > 0)) error("thickness", "Thickness must be more than zero.");
+
+    // Custom Overrides (required for glasses without known temps, e.g. "Custom")
+    if (customAnneal !== undefined && !isFinite(customAnneal)) error("anneal_temp", "Anneal temperature must be a number.");
+    else if (customAnneal) annealTemp = toF(customAnneal);
+    if (customStrain !== undefined && !isFinite(customStrain)) error("strain_point", "Strain point must be a number.");
+    else if (customStrain) strainPoint = toF(customStrain);
+
+    const hasError = (field: ScheduleField) => issues.some(issue => issue.severity === "error" && issue.field === field);
+    if (annealTemp === null && !hasError("anneal_temp")) error("anneal_temp", "This glass has no known anneal temperature; enter one.");
+    if (strainPoint === null && !hasError("strain_point")) error("strain_point", "This glass has no known strain point; enter one.");
+    if (annealTemp === null || strainPoint === null) return invalid();
+    if (strainPoint >= annealTemp) {
+        error("strain_point", `Strain point (${showTemp(strainPoint)}) must be below the anneal temperature (${showTemp(annealTemp)}).`);
     }
 
-    // Safety Fallback
-    if (!annealTemp) annealTemp = 900;
-    if (!strainPoint) strainPoint = 700;
-
     // Process Temp (Max Temp)
     let processTemp = annealTemp;
     let processHoldMins = 0;
@@ -164,6 +385,49 @@ export function calculateSchedule(
         }
     }
 
+    if (mode !== "anneal_only" && mode !== "custom") {
+        if (processTemp <= annealTemp) {
+            error("process_temp", `Process temperature (${showTemp(processTemp)}) must be above the anneal temperature (${showTemp(annealTemp)}).`);
+        }
+        if (!processHoldIndefinite && !(processHoldMins >= 0)) error("process_hold_minutes", "Hold time can't be negative.");
+        if (customProcessRamp !== undefined && !(customProcessRamp > 0)) error("process_ramp", "Ramp rate must be more than zero.");
+        if (mode === "cast" && moldDryHours) {
+            const dryTemp = moldDryTemp ? toF(moldDryTemp) : 250;
+            if (moldDryHours < 0) error("mold_dry_hours", "Mold dry time can't be negative.");
+            if (!(dryTemp > startTemp)) {
+                error("mold_dry_temp", `Mold dry temperature must be above the ${showTemp(startTemp)} the schedule starts from.`);
+            } else if (dryTemp >= processTemp) {
+                error("mold_dry_temp", `Mold dry temperature (${showTemp(dryTemp)}) must be below the process temperature (${showTemp(processTemp)}).`);
+            }
+        }
+        if (bubbleSqueeze && !(bubbleSqueeze.area >= 0 && bubbleSqueeze.layers >= 1)) {
+            error("bubble_squeeze", "Bubble squeeze needs at least one layer and an area of zero or more.");
+        }
+    }
+    if (mode === "custom") {
+        if (customStages.length === 0) error("stages", "Add at least one stage to the program.");
+        customStages.forEach((stage, i) => {
+            const name = stage.label || `Stage ${i + 1}`;
+            if (!isFinite(stage.target)) error("stages", `${name}: target must be a number.`);
+            if (stage.rate !== "AFAP" && !(stage.rate > 0)) error("stages", `${name}: rate must be more than zero.`);
+            if (stage.hold !== "indefinite" && !(stage.hold >= 0)) error("stages", `${name}: hold can't be negative.`);
+        });
+    }
+    if (cooling.crash_cool === "rate" && !(cooling.crash_rate !== undefined && cooling.crash_rate > 0)) {
+        error("crash_rate", "Enter a crash cool rate above zero, or choose another crash cool.");
+    }
+    if (placement && [placement.length, placement.width, placement.kiln_length, placement.kiln_width].some(v => v !== undefined && !(v > 0))) {
+        error("placement", "Piece and kiln floor sizes must be more than zero.");
+    }
+    if (kiln && !(kiln.max_heat_rate > 0 && isFinite(kiln.max_heat_rate))) error("kiln", "The kiln's maximum heating rate must be more than zero.");
+    if (kiln && !(kiln.cooling_tau_hours > 0 && isFinite(kiln.cooling_tau_hours))) error("kiln", "The kiln's cooling time constant must be more than zero.");
+    if (cooling.unload_temp !== undefined && !(toF(cooling.unload_temp) > AMBIENT_F)) {
+        error("unload_temp", `Unload temperature must be above room temperature (${showTemp(AMBIENT_F)}).`);
+    } else if (cooling.unload_temp !== undefined && toF(cooling.unload_temp) > strainPoint) {
+        warn("unload_temp", `Unload temperature is above the strain point; the schedule cools to ${showTemp(strainPoint)} instead.`);
+    }
+    if (issues.some(issue => issue.severity === "error")) return invalid();
+
     // Override hold if indefinite
     if (processHoldIndefinite) {
         processHoldMins = 0; // It takes "0 time" in the schedule plot calculation, effectively a pause point
@@ -188,11 +452,14 @@ export function calculateSchedule(
     // Conservativeness Factor
     const safeFactor = CONSERVATIVENESS_FACTORS[conservativeness];
 
+    // Size & Placement Factor (1 = small piece, well clear of the walls)
+    const placementAdj = placement ? placementFactor(placement, units) : { factor: 1, reasons: [] };
+
     // -- CALCULATION: ANNEAL SOAK --
     // t_soak_hours = max(0.5, 0.16 * effective_thickness_mm) * safeFactor
     // 0.16 * 6mm (~1/4") = 0.96 hours. 
     // Bullseye chart says 1 hr for 6mm. Matches well.
-    let annealSoakHours = Math.max(0.5, 0.16 * effectiveThicknessMm) * safeFactor;
+    let annealSoakHours = Math.max(0.5, 0.16 * effectiveThicknessMm) * safeFactor * placementAdj.factor;
 
     // -- CALCULATION: COOLING RATE 1 (Anneal -> Strain) --
     // R1 = 15 C/h * (25 / thickness_mm)^2 * brand_factor / safeFactor
@@ -209,6 +476,10 @@ export function calculateSchedule(
     // Cap R1: Max 300 C/h (540 F/h)
     if (r1_C > 300) r1_C = 300;
 
+    // Across a wide piece, or next to the walls, the edges run ahead of the middle on the way
+    // through the anneal range. Slow rate 1 (after the cap, so thin pieces slow too).
+    r1_C /= placementAdj.factor;
+
     let rate1_F = r1_C * 9 / 5; // Convert to F/hr
 
     // -- CALCULATION: COOLING RATE 2 (Strain -> Room/Safe) --
@@ -223,163 +494,395 @@ export function calculateSchedule(
 
     let rate2_F = r2_C * 9 / 5;
 
-    // -- FINAL COOL (Below "Safe Final") --
-    // Often ignored or just "Rate 2 continued" or fast. 
-    // For simplicity / safety, we usually just continue Rate 2 to room temp or slightly faster. 
-    // The report suggests R_final = 150 C/h ... 
-    // Let's stick to Rate 2 down to room temp to be "Research Grade" safe, unless user is very impatient.
-    // Actually, let's allow a Rate 3 if we want to be fancy, but standard kiln controllers usually just do 2-3 steps. 
-    // We'll stick to 2 cooling segments for simplicity in output, or maybe 3 if significant.
-    // Let's just use Rate 2 all the way to unload temp for simplicity and safety.
-
-    // 3. Generate Schedule Points
-    const unloadTemp = 150; // F
-    let rampToProcessRate = 400; // Default F/hr
-
-    // Dynamic Ramp Up base on thickness (Physics: Heat also stresses glass!)
-    // If thick, heat slower. 
-    // Heuristic: If > 1 inch, slow down.
-    if (effectiveThicknessMm > 25) rampToProcessRate = 200;
-    if (effectiveThicknessMm > 50) rampToProcessRate = 100;
-
-    if (customProcessRamp) {
-        if (units === 'metric') rampToProcessRate = customProcessRamp * 9 / 5;
-        else rampToProcessRate = customProcessRamp;
-    }
-
-    const points: AnnealingSchedulePoint[] = [];
-    let currentTime = 0;
+    // -- CALCULATION: COOLING RATE 3 (Below ~700 F -> Unload) --
+    // R3 = 90 C/h * (25 / thickness_mm)^2 * brand_factor / safeFactor
+    // 90 C/h = 162 F/h. Bullseye's thick slab chart for 1" runs 162 F/h below 700 F. Matches.
+    // Well below the strain point the glass is fully rigid and only the risk of thermal shock remains.
+
+    const baseRate3_C = 90;
+    let r3_C = baseRate3_C * Math.pow(25 / effectiveThicknessMm, 2) * brandFactor / safeFactor;
+
+    // Cap R3: Max 600 C/h
+    if (r3_C > 600) r3_C = 600;
+
+    const rate3_F = r3_C * 9 / 5;
+    const rate3StartTemp = 700; // F
+
+    // -- CALCULATION: HEATING RATES --
+    // Heating puts the surface in compression, which glass tolerates far better than the tension of cooling,
+    // so the base rates are several times the cooling rates but scale the same way with thickness.
+    // H1 (Room -> Strain) = 55 C/h * (25 / thickness_mm)^2 * brand_factor / safeFactor
+    // 55 C/h = ~100 F/h for 1 inch, in line with Bullseye's thick slab heating.
+    const baseHeat1_C = 55;
+    let h1_C = baseHeat1_C * Math.pow(25 / effectiveThicknessMm, 2) * brandFactor / safeFactor;
+    if (h1_C > 222) h1_C = 222; // Cap: 400 F/h, the old default for thin work
+
+    // H2 (Strain -> Anneal): the glass starts to relax here, so uneven heating in thick or tacked
+    // sections can set in as permanent stress. Ease off a little.
+    const baseHeat2_C = 45;
+    let h2_C = baseHeat2_C * Math.pow(25 / effectiveThicknessMm, 2) * brandFactor / safeFactor;
+    if (h2_C > 222) h2_C = 222;
+
+    // H3 (Anneal -> Process): above the anneal point stress relaxes about as fast as it builds.
+    const baseHeat3_C = 170;
+    let h3_C = baseHeat3_C * Math.pow(25 / effectiveThicknessMm, 2) * brandFactor / safeFactor;
+    if (h3_C > 333) h3_C = 333; // Cap: 600 F/h
+
+    const heatRate1_F = h1_C * 9 / 5;
+    const heatRate2_F = h2_C * 9 / 5;
+    const heatRate3_F = h3_C * 9 / 5;
+
+    // 3. Generate Schedule Segments
+    // Can't unload above the strain point
+    const unloadTemp = Math.min(cooling.unload_temp !== undefined ? toF(cooling.unload_temp) : 150, strainPoint);
+
+    // Helper for result units
+    const toRate = (r: number) => units === 'metric' ? r * 5 / 9 : r;
 
-    // Start
-    points.push({ time: currentTime, temp: toOutputTemp(unloadTemp), label: "Start", segment_type: 'off' });
+    const segments: ScheduleSegment[] = [];
+
+    // Heating bands, each up to its top temperature (F). A user ramp override applies all the way up.
+    const customRampF = customProcessRamp ? (units === 'metric' ? customProcessRamp * 9 / 5 : customProcessRamp) : undefined;
+    const heatBands = customRampF
+        ? [{ top: Infinity, rate: customRampF, label: "", reach_label: "" }]
+        : [
+            { top: strainPoint, rate: heatRate1_F, label: "Heat -> Strain", reach_label: "Strain (Heating)" },
+            { top: annealTemp, rate: heatRate2_F, label: "Heat -> Anneal", reach_label: "Anneal (Heating)" },
+            { top: Infinity, rate: heatRate3_F, label: "", reach_label: "" }
+        ];
+
+    // Heats from `fromF` to `toF`, adding a segment at each band boundary crossed on the way
+    // (unless the rate doesn't change there), and finishes with `seg` at the rate of the band the target falls in
+    const pushHeating = (fromF: number, toF: number, seg: Omit<ScheduleSegment, "rate" | "target" | "ramp_hours">) => {
+        let temp = fromF;
+        for (const [i, band] of heatBands.entries()) {
+            if (toF <= band.top) {
+                segments.push({ ...seg, rate: toRate(band.rate), target: toOutputTemp(toF), ramp_hours: (toF - temp) / band.rate });
+                return;
+            }
+            if (temp < band.top && band.rate !== heatBands[i + 1].rate) {
+                segments.push({
+                    purpose: "preheat",
+                    label: band.label,
+                    rate: toRate(band.rate),
+                    target: toOutputTemp(band.top),
+                    hold: 0,
+                    ramp_hours: (band.top - temp) / band.rate,
+                    reach_label: band.reach_label
+                });
+                temp = band.top;
+            }
+        }
+    };
 
     // Firing
     if (mode !== "anneal_only") {
-        let currentStartTemp = unloadTemp;
-
-        // Mold Dry
-        if (mode === 'cast' && moldDryHours && moldDryHours > 0) {
-            const mdt = moldDryTemp ? toF(moldDryTemp) : 250;
-            const timeToDry = (mdt - currentStartTemp) / rampToProcessRate;
-            currentTime += timeToDry;
-            points.push({ time: currentTime, temp: toOutputTemp(mdt), label: "Mold Dry Reach", segment_type: 'heat' });
-
-            currentTime += moldDryHours;
-            points.push({ time: currentTime, temp: toOutputTemp(mdt), label: "Mold Dry Hold", segment_type: 'process' }); // Revert to process (Red)
-            currentStartTemp = mdt;
+        let currentStartTemp = startTemp;
+
+        if (mode === "custom") {
+            // User-defined heat/hold stages, in order
+            customStages.forEach((stage, i) => {
+                const targetF = toF(stage.target);
+                const rateF = stage.rate === "AFAP" ? AFAP_RATE_F : (units === 'metric' ? stage.rate * 9 / 5 : stage.rate);
+                const label = stage.label || `Stage ${i + 1}`;
+                segments.push({
+                    purpose: "custom_stage",
+                    label,
+                    rate: stage.rate === "AFAP" ? "AFAP" : toRate(rateF),
+                    target: toOutputTemp(targetF),
+                    hold: stage.hold,
+                    ramp_hours: Math.abs(targetF - currentStartTemp) / rateF,
+                    reach_label: `${label} Reach`,
+                    hold_label: stage.hold === "indefinite" ? `${label} Hold (Indefinite)` : `${label} Complete`
+                });
+                currentStartTemp = targetF;
+            });
+        } else {
+            // Mold Dry
+            if (mode === 'cast' && moldDryHours && moldDryHours > 0) {
+                const mdt = moldDryTemp ? toF(moldDryTemp) : 250;
+                pushHeating(currentStartTemp, mdt, {
+                    purpose: "mold_dry",
+                    label: "Mold Dry",
+                    hold: moldDryHours * 60,
+                    reach_label: "Mold Dry Reach",
+                    hold_label: "Mold Dry Hold"
+                });
+                currentStartTemp = mdt;
+            }
+
+            // Bubble Squeeze
+            // Hold around the slump point so the top layers settle from the edges in and push trapped air out
+            // before the glass gets runny. Bigger stacks and footprints need longer for the air to escape.
+            const squeezeModes: ScheduleMode[] = ["tack_fuse", "full_fuse", "cast"];
+            const squeezeTemp = props.slump_temp ?? (annealTemp + 250);
+            if (bubbleSqueeze && squeezeModes.includes(mode) && squeezeTemp < processTemp - 50) {
+                const areaIn2 = units === 'metric' ? bubbleSqueeze.area / 6.4516 : bubbleSqueeze.area;
+                const layerFactor = 1 + 0.25 * Math.max(0, bubbleSqueeze.layers - 2);
+                const areaFactor = Math.max(1, Math.sqrt(areaIn2 / 144)); // 12" x 12" baseline
+                const squeezeMins = Math.min(180, Math.round(30 * layerFactor * areaFactor / 5) * 5);
+                pushHeating(currentStartTemp, squeezeTemp, {
+                    purpose: "bubble_squeeze",
+                    label: "Bubble Squeeze",
+                    hold: squeezeMins,
+                    reach_label: "Squeeze Reach",
+                    hold_label: "Bubble Squeeze"
+                });
+                currentStartTemp = squeezeTemp;
+            }
+
+            // Ramp to Process + Hold
+            pushHeating(currentStartTemp, processTemp, {
+                purpose: "process",
+                label: "Process",
+                hold: processHoldIndefinite ? "indefinite" : processHoldMins,
+                reach_label: mode === 'cast' ? "Reach Cast" : "Process Reach",
+                hold_label: processHoldIndefinite ? "Process Hold (Indefinite)" : "Process Complete"
+            });
+            currentStartTemp = processTemp;
         }
 
-        // Ramp to Process
-        const timeToProcess = (processTemp - currentStartTemp) / rampToProcessRate;
-        currentTime += timeToProcess;
-        let reachLabel = "Process Reach";
-        if (mode === 'cast') reachLabel = "Reach Cast";
-        points.push({ time: currentTime, temp: toOutputTemp(processTemp), label: reachLabel, segment_type: 'process' });
-
-        // Hold
-        currentTime += (processHoldMins / 60);
-        const holdLabel = processHoldIndefinite ? "Process Hold (Indefinite)" : "Process Complete";
-        // Only use 'process_hold' (Yellow) if it IS indefinite. Otherwise standard process (Red).
-        const holdType = processHoldIndefinite ? 'process_hold' : 'process';
-        points.push({ time: currentTime, temp: toOutputTemp(processTemp), label: holdLabel, segment_type: holdType });
-
-        // Crash Cool to Anneal
-        // In physics model, crash cool is limited by "thermal shock of the kiln" usually lol, but glass can break if cooled too fast on surface. 
-        // We assume "Full" is fine for most art glass until anneal soak.
-        const timeToAnneal = (processTemp - annealTemp) / 1000; // Assume fast
-        currentTime += timeToAnneal;
-        points.push({ time: currentTime, temp: toOutputTemp(annealTemp), label: "Cool to Anneal", segment_type: 'cool' });
-
+        if (currentStartTemp > annealTemp) {
+            // Crash Cool to Anneal, then Anneal Soak
+            // Glass can break if the surface is cooled too fast, but art glass above the anneal point
+            // tolerates anything a kiln can do. The limit is how fast the kiln itself sheds heat.
+            const crashCool = cooling.crash_cool ?? "afap";
+            const ventLid = cooling.vent_lid ?? false;
+            const tau = (kiln?.cooling_tau_hours ?? NATURAL_COOL_TAU_HOURS) * (ventLid ? VENT_TAU_FACTOR : 1);
+            let crashRate: SegmentRate = "AFAP";
+            let crashHours = (currentStartTemp - annealTemp) / AFAP_RATE_F; // Assume fast
+            let naturalCool: ScheduleSegment["natural_cool"];
+
+            if (crashCool === "rate" && cooling.crash_rate) {
+                const rateF = units === 'metric' ? cooling.crash_rate * 9 / 5 : cooling.crash_rate;
+                crashRate = toRate(rateF);
+                crashHours = (currentStartTemp - annealTemp) / rateF;
+            } else if (crashCool === "natural") {
+                crashHours = tau * Math.log((currentStartTemp - AMBIENT_F) / (annealTemp - AMBIENT_F));
+                naturalCool = { tau_hours: tau, ambient: toOutputTemp(AMBIENT_F) };
+            }
+
+            segments.push({
+                purpose: "cool_to_anneal",
+                label: ventLid ? "Cool to Anneal (Vent)" : "Cool to Anneal",
+                rate: crashRate,
+                target: toOutputTemp(annealTemp),
+                hold: annealSoakHours * 60,
+                ramp_hours: crashHours,
+                reach_label: "Cool to Anneal",
+                hold_label: "Anneal Soak",
+                note: ventLid ? "Crack the lid for this cool, and close it before the anneal soak." : undefined,
+                natural_cool: naturalCool
+            });
+        } else {
+            // A custom program can finish below the anneal point; heat back up to soak
+            pushHeating(currentStartTemp, annealTemp, {
+                purpose: "ramp_to_soak",
+                label: "Ramp to Soak",
+                hold: annealSoakHours * 60,
+                reach_label: "Reach Soak",
+                hold_label: "Anneal Soak"
+            });
+        }
     } else {
         // Ramp to Soak
         // Fixed 10 minute ramp for Anneal Only (load/stabilize)
-        const timeToSoak = 10 / 60;
-        currentTime += timeToSoak;
-        points.push({ time: currentTime, temp: toOutputTemp(annealTemp), label: "Reach Soak", segment_type: 'heat' });
+        segments.push({
+            purpose: "ramp_to_soak",
+            label: "Ramp to Soak",
+            rate: "AFAP",
+            target: toOutputTemp(annealTemp),
+            hold: annealSoakHours * 60,
+            ramp_hours: 10 / 60,
+            reach_label: "Reach Soak",
+            hold_label: "Anneal Soak"
+        });
     }
 
-    // Anneal Soak
-    currentTime += annealSoakHours;
-    points.push({ time: currentTime, temp: toOutputTemp(annealTemp), label: "Anneal Soak", segment_type: 'soak' });
-
     // Cool to Strain (Rate 1)
-    const timeAnnealToStrain = (annealTemp - strainPoint) / rate1_F;
-    currentTime += timeAnnealToStrain;
-    points.push({ time: currentTime, temp: toOutputTemp(strainPoint), label: "Strain Point", segment_type: 'cool' });
+    segments.push({
+        purpose: "anneal_cool",
+        label: "Anneal -> Strain",
+        rate: toRate(rate1_F),
+        target: toOutputTemp(strainPoint),
+        hold: 0,
+        ramp_hours: (annealTemp - strainPoint) / rate1_F,
+        reach_label: "Strain Point"
+    });
 
-    // Cool to Unload (Rate 2)
-    const timeToCool = (strainPoint - unloadTemp) / rate2_F;
-    currentTime += timeToCool;
-    points.push({ time: currentTime, temp: toOutputTemp(unloadTemp), label: "Finished", segment_type: 'cool' });
+    // Cool to ~700 F (Rate 2), then faster to Unload (Rate 3).
+    // Skipped when the glass strains below that point or Rate 3 would be no faster.
+    if (strainPoint > rate3StartTemp && unloadTemp < rate3StartTemp && rate3_F > rate2_F) {
+        segments.push({
+            purpose: "strain_cool",
+            label: `Strain -> ${Math.round(toOutputTemp(rate3StartTemp))}`,
+            rate: toRate(rate2_F),
+            target: toOutputTemp(rate3StartTemp),
+            hold: 0,
+            ramp_hours: (strainPoint - rate3StartTemp) / rate2_F,
+            reach_label: "Final Cool Start"
+        });
+        segments.push({
+            purpose: "final_cool",
+            label: "Final Cool",
+            rate: toRate(rate3_F),
+            target: toOutputTemp(unloadTemp),
+            hold: 0,
+            ramp_hours: (rate3StartTemp - unloadTemp) / rate3_F,
+            reach_label: "Finished"
+        });
+    } else {
+        segments.push({
+            purpose: "final_cool",
+            label: "Strain -> Cool",
+            rate: toRate(rate2_F),
+            target: toOutputTemp(unloadTemp),
+            hold: 0,
+            ramp_hours: (strainPoint - unloadTemp) / rate2_F,
+            reach_label: "Finished"
+        });
+    }
 
+    const fitted = kiln ? fitToKiln(segments, toOutputTemp(startTemp), units, kiln, cooling.vent_lid ?? false) : segments;
 
-    // 4. Instructions
-    const tempUnit = units === 'metric' ? "°C" : "°F";
-    const rateUnit = units === 'metric' ? "°C/hr" : "°F/hr";
-    const toRate = (r: number) => units === 'metric' ? r * 5 / 9 : r;
+    return {
+        units,
+        start_temp: toOutputTemp(startTemp),
+        logic_summary: `Physics Model v1 (Shape: ${shape}, Safety: ${safeFactor}x)` + (placementAdj.factor > 1
+            ? `; Placement ${placementAdj.factor.toFixed(2)}x: longer soak and slower rate 1 for ${placementAdj.reasons.join(" and ")}`
+            : ""),
+        segments: fitted,
+        points: buildSchedulePoints(fitted, toOutputTemp(startTemp)),
+        issues
+    };
+}
 
-    let paragon = `Make sure to verify these against your specific kiln manual.\n`;
-    paragon += `ALL TEMPS IN ${tempUnit}, RATES IN ${rateUnit}\n`;
+// Beyond this span, the middle of a piece lags its edges through the anneal range
+const LARGE_SPAN_MM = 300;
+// Closer than this to the walls or elements, the near edge heats and cools ahead of the rest
+const EDGE_GAP_MM = 50;
+const MAX_PLACEMENT_FACTOR = 2;
+
+/**
+ * How much to lengthen the soak and slow rate 1 for a piece's size and placement,
+ * with the reasons in words. +25% per 300 mm of span past the first 300 mm (up to 1.5x),
+ * and up to 1.5x more as the gap to the walls closes from 50 mm to nothing.
+ */
+function placementFactor(placement: PiecePlacement, units: UnitSystem): { factor: number; reasons: string[] } {
+    const toMm = (v: number) => units === 'metric' ? v * 10 : v * 25.4;
+    const show = (mm: number) => units === 'metric'
+        ? `${Math.round(mm) / 10} cm`
+        : `${Math.round(mm / 2.54) / 10} in`;
+    const reasons: string[] = [];
+
+    // Diagonal of a rectangle, diameter of a round piece
+    const lengthMm = toMm(placement.length);
+    const widthMm = placement.width === undefined ? lengthMm : toMm(placement.width);
+    const spanMm = placement.width === undefined ? lengthMm : Math.hypot(lengthMm, widthMm);
+
+    let sizeFactor = 1;
+    if (spanMm > LARGE_SPAN_MM) {
+        sizeFactor = Math.min(1.5, 1 + 0.25 * (spanMm - LARGE_SPAN_MM) / LARGE_SPAN_MM);
+        reasons.push(`a ${show(spanMm)} span`);
+    }
+
+    // An unstated gap means the piece sits in the middle of the floor
+    let gapMm = placement.edge_gap !== undefined ? toMm(placement.edge_gap) : undefined;
+    if (gapMm === undefined && placement.kiln_length !== undefined) {
+        const kilnLengthMm = toMm(placement.kiln_length);
+        gapMm = placement.kiln_width === undefined
+            ? (kilnLengthMm - spanMm) / 2
+            : Math.min(kilnLengthMm - Math.max(lengthMm, widthMm), toMm(placement.kiln_width) - Math.min(lengthMm, widthMm)) / 2;
+    }
 
-    paragon += `Logic: Physics Model v1 (Shape: ${shape}, Safety: ${safeFactor}x)\n\n`;
+    let edgeFactor = 1;
+    if (gapMm !== undefined && gapMm < EDGE_GAP_MM) {
+        edgeFactor = 1 + 0.5 * (1 - Math.max(0, gapMm) / EDGE_GAP_MM);
+        reasons.push(gapMm <= 0 ? "a piece that fills the kiln floor" : `a ${show(gapMm)} gap to the kiln wall`);
+    }
 
-    // ... Paragon Builder (Simplified for brevity, logic holds)
-    let segCount = 1;
-    let sc = 0;
+    return { factor: Math.min(MAX_PLACEMENT_FACTOR, sizeFactor * edgeFactor), reasons };
+}
 
-    if (mode !== "anneal_only") {
-        if (mode === 'cast' && moldDryHours && moldDryHours > 0) {
-            const mdt = moldDryTemp ? toF(moldDryTemp) : 250;
-            sc = segCount++;
-            paragon += `SEG ${sc} (Mold Dry):\n  RA${sc} : ${Math.round(toRate(rampToProcessRate))}\n  ${tempUnit}${sc} : ${Math.round(toOutputTemp(mdt))}\n  HLD${sc}: ${generateTimeStr(Math.round(moldDryHours * 60))}\n\n`;
+/**
+ * Adjusts segments to what the kiln can physically follow. Heating ramps faster than the
+ * elements allow are flagged and take longer. A controlled cool that outruns the kiln's
+ * natural cooling is split where the two meet: above that, the programmed rate; below it,
+ * a "natural cool" segment (AFAP). AFAP cools are timed along the natural curve.
+ */
+function fitToKiln(segments: ScheduleSegment[], startTemp: number, units: UnitSystem, kiln: KilnProperties, ventLid: boolean): ScheduleSegment[] {
+    const toOutputTemp = (f: number) => units === 'metric' ? (f - 32) * 5 / 9 : f;
+    const toRate = (r: number) => units === 'metric' ? r * 5 / 9 : r;
+    const rateUnit = units === 'metric' ? "°C/hr" : "°F/hr";
+    const ambient = toOutputTemp(AMBIENT_F);
+    const maxHeat = toRate(kiln.max_heat_rate);
+
+    // Hours to cool freely from `from` to `to`; never quite reaches ambient
+    const naturalHours = (from: number, to: number, tau: number) =>
+        tau * Math.log((from - ambient) / Math.max(to - ambient, 1));
+
+    const out: ScheduleSegment[] = [];
+    let from = startTemp;
+    segments.forEach((seg) => {
+        const start = from;
+        from = seg.target;
+
+        if (seg.target > start) {
+            if (seg.rate !== "AFAP" && seg.rate <= maxHeat) {
+                out.push(seg);
+                return;
+            }
+            const hours = (seg.target - start) / maxHeat;
+            out.push({
+                ...seg,
+                ramp_hours: hours,
+                kiln_warning: seg.rate === "AFAP" ? undefined
+                    : `Kiln heats at most ${Math.round(maxHeat)} ${rateUnit}; this ramp takes about ${hours.toFixed(1)} h instead of ${seg.ramp_hours.toFixed(1)} h.`
+            });
+            return;
+        }
+        if (seg.target === start) {
+            out.push(seg);
+            return;
         }
 
-        sc = segCount++;
-        sc = segCount++;
-        // Paragon Sentry 2.0 uses 99.59 for indefinite hold.
-        const holdStr = processHoldIndefinite ? "99.59" : generateTimeStr(Math.round(processHoldMins));
-        const holdNote = processHoldIndefinite ? " (INDEFINITE)" : "";
-        paragon += `SEG ${sc} (Process):\n  RA${sc} : ${Math.round(toRate(rampToProcessRate))}\n  ${tempUnit}${sc} : ${Math.round(toOutputTemp(processTemp))}\n  HLD${sc}: ${holdStr}${holdNote}\n\n`;
+        const tau = kiln.cooling_tau_hours * (seg.purpose === "cool_to_anneal" && ventLid ? VENT_TAU_FACTOR : 1);
+        const natural = (top: number, warning?: string): ScheduleSegment => ({
+            ...seg,
+            label: seg.rate === "AFAP" ? seg.label : `${seg.label} (Natural)`,
+            rate: "AFAP",
+            ramp_hours: naturalHours(top, seg.target, tau),
+            natural_cool: { tau_hours: tau, ambient },
+            kiln_warning: warning
+        });
+
+        if (seg.rate === "AFAP") {
+            out.push(natural(start));
+            return;
+        }
 
-        sc = segCount++;
-        paragon += `SEG ${sc} (Cool to Anneal):\n  RA${sc} : 9999\n  ${tempUnit}${sc} : ${Math.round(toOutputTemp(annealTemp))}\n  HLD${sc}: ${generateTimeStr(Math.round(annealSoakHours * 60))}\n\n`;
-    } else {
-        sc = segCount++;
-        paragon += `SEG ${sc} (Ramp to Soak):\n  RA${sc} : 9999\n  ${tempUnit}${sc} : ${Math.round(toOutputTemp(annealTemp))}\n  HLD${sc}: ${generateTimeStr(Math.round(annealSoakHours * 60))}\n\n`;
-    }
+        // Below this temperature the kiln can't cool as fast as the programmed rate
+        const crossover = ambient + seg.rate * tau;
+        if (crossover <= seg.target) {
+            out.push(seg);
+            return;
+        }
 
-    sc = segCount++;
-    paragon += `SEG ${sc} (Anneal -> Strain):\n  RA${sc} : ${Math.round(toRate(rate1_F))}\n  ${tempUnit}${sc} : ${Math.round(toOutputTemp(strainPoint))}\n  HLD${sc}: 00:00\n\n`;
-
-    sc = segCount++;
-    paragon += `SEG ${sc} (Strain -> Cool):\n  RA${sc} : ${Math.round(toRate(rate2_F))}\n  ${tempUnit}${sc} : ${Math.round(toOutputTemp(unloadTemp))}\n  HLD${sc}: 00:00`;
-
-
-    // Digitry
-    let digitry = `NOTE: Time is CUMULATIVE from start.\n`;
-    digitry += `Logic: Physics Model v1 (Shape: ${shape}, Safety: ${safeFactor}x)\n`;
-    digitry += `TEMPS IN ${tempUnit}\n\n`;
-    let digitryStep = 1;
-    const schedulePoints = points.slice(1);
-    schedulePoints.forEach((p) => {
-        const pMins = Math.round(p.time * 60);
-        let timeStr = generateTimeStr(pMins);
-        if (p.label?.includes("Indefinite")) {
-            // Digitry uses HHHH for indefinite hold
-            timeStr = "HHHH";
+        const warning = crossover < start
+            ? `Kiln can't cool at ${Math.round(seg.rate)} ${rateUnit} below ${Math.round(crossover)}; it cools naturally (AFAP) from there.`
+            : `Kiln can't cool at ${Math.round(seg.rate)} ${rateUnit} here; it cools naturally (AFAP) instead.`;
+        if (crossover < start) {
+            out.push({
+                ...seg,
+                target: crossover,
+                hold: 0,
+                ramp_hours: (start - crossover) / seg.rate,
+                reach_label: "Natural Cool Start",
+                hold_label: undefined
+            });
         }
-        digitry += `STEP ${digitryStep++}: ${p.label}\n  TEMP: ${Math.round(p.temp)}${tempUnit}\n  TIME: ${timeStr}\n\n`;
+        out.push({ ...natural(Math.min(start, crossover), warning), note: crossover < start ? undefined : seg.note });
     });
 
-    return {
-        points,
-        paragon_instructions: paragon,
-        digitry_instructions: digitry
-    };
-}
-
-function generateTimeStr(totalMins: number): string {
-    const h = Math.floor(totalMins / 60);
-    const m = Math.floor(totalMins % 60);
-    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+    return out;
 }
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { GLASS_LIBRARY } from './annealingLogic';
+import { batchToCsv, csvField, generateBatch, parseThicknesses } from './batchSchedules';
+
+describe("parseThicknesses", () => {
+    it("reads lists and ranges, sorted without repeats", () => {
+        expect(parseThicknesses("0.5, 0.25 1-2/0.5; 0.5")).toEqual([0.25, 0.5, 1, 1.5, 2]);
+        expect(parseThicknesses("0.1-0.5/0.1")).toEqual([0.1, 0.2, 0.3, 0.4, 0.5]);
+    });
+
+    it("names the entry it can't read", () => {
+        expect(() => parseThicknesses("0.5, thick")).toThrow('"thick" isn\'t a thickness.');
+        expect(() => parseThicknesses("2-1/0.5")).toThrow(/isn't a usable range/);
+    });
+});
+
+describe("generateBatch", () => {
+    it("runs every glass, thickness and shape, leaving out what the engine rejects", () => {
+        const rows = generateBatch({
+            glasses: [
+                { name: "Bullseye", properties: GLASS_LIBRARY["Bullseye (COE 90)"] },
+                { name: "Unknown", properties: GLASS_LIBRARY["Custom"] }
+            ],
+            thicknesses: [0.25, 0.5],
+            shapes: ["slab", "uneven"],
+            mode: "anneal_only",
+            conservativeness: "standard",
+            units: 'imperial'
+        });
+        expect(rows.map(r => [r.glass, r.thickness, r.shape])).toEqual([
+            ["Bullseye", 0.25, "slab"], ["Bullseye", 0.25, "uneven"],
+            ["Bullseye", 0.5, "slab"], ["Bullseye", 0.5, "uneven"]
+        ]);
+        expect(batchToCsv(rows, 'imperial', "anneal_only").trim().split("\n")).toHaveLength(5);
+    });
+});
+
+describe("csvField", () => {
+    it("quotes fields that would break a row", () => {
+        expect(csvField("plain")).toBe("plain");
+        expect(csvField('say "hi", then')).toBe('"say ""hi"", then"');
+        expect(csvField("two\nlines")).toBe('"two\nlines"');
+        expect(csvField("old\rmac")).toBe('"old\rmac"');
+    });
+});
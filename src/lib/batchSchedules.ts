@@ -0,0 +1,181 @@
+import { calculateSchedule } from './annealingLogic';
+import type { Conservativeness, GlassProperties, ScheduleMode, SegmentRate, ShapeFactor, UnitSystem } from './annealingLogic';
+import { summarizeSchedule } from './comparison';
+import type { ScheduleSummary } from './comparison';
+
+export interface BatchGlass {
+    name: string;
+    properties: GlassProperties;
+}
+
+export interface BatchRequest {
+    glasses: BatchGlass[];
+    thicknesses: number[]; // cm (metric) or inches (imperial)
+    shapes: ShapeFactor[];
+    mode: ScheduleMode;
+    conservativeness: Conservativeness;
+    units: UnitSystem;
+}
+
+export interface BatchRow extends ScheduleSummary {
+    glass: string;
+    thickness: number;
+    shape: ShapeFactor;
+}
+
+// Thicknesses of the published thick-slab charts, in each unit system
+export const BATCH_THICKNESS_PRESETS: Record<UnitSystem, string> = {
+    "metric": "0.3, 0.6, 0.9, 1.2, 1.9, 2.5, 3.2, 3.8, 5, 6.3, 7.5",
+    "imperial": "0.125, 0.25, 0.375, 0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3",
+};
+
+export const SHAPE_LABELS: Record<ShapeFactor, string> = {
+    "slab": "Flat Slab",
+    "uneven": "Uneven / Tack",
+    "hollow_deep": "Hollow / Deep / 3D",
+};
+
+// Keeps a mistyped range from generating thousands of schedules
+export const MAX_BATCH_ROWS = 500;
+
+/**
+ * Parses a thickness list such as "0.3, 0.6, 1-3/0.5". A range "from-to/step"
+ * includes both ends. Throws an Error naming the entry it can't read.
+ */
+export function parseThicknesses(text: string): number[] {
+    const values: number[] = [];
+    text.split(/[,;\s]+/).filter(Boolean).forEach((entry) => {
+        const range = entry.match(/^(\d*\.?\d+)-(\d*\.?\d+)\/(\d*\.?\d+)$/);
+        if (range) {
+            const [from, to, step] = range.slice(1).map(parseFloat);
+            if (step <= 0 || to < from) throw new Error(`"${entry}" isn't a usable range. Write it as from-to/step, e.g. 1-3/0.5.`);
+            // Count steps rather than adding, so 0.1 steps don't drift
+            for (let i = 0; from + i * step <= to + step / 1000; i++) {
+                values.push(Math.round((from + i * step) * 1000) / 1000);
+            }
+            return;
+        }
+        const value = Number(entry);
+        if (isNaN(value) || value <= 0) throw new Error(`"${entry}" isn't a thickness.`);
+        values.push(value);
+    });
+    return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Runs calculateSchedule over every glass × thickness × shape, glass-major,
+ * and summarizes each schedule as a row. Combinations the engine rejects are left out.
+ */
+export function generateBatch(request: BatchRequest): BatchRow[] {
+    const rows: BatchRow[] = [];
+    request.glasses.forEach((glass) => {
+        request.thicknesses.forEach((thickness) => {
+            request.shapes.forEach((shape) => {
+                const result = calculateSchedule({
+                    glass: glass.properties,
+                    thickness,
+                    units: request.units,
+                    mode: request.mode,
+                    shape,
+                    conservativeness: request.conservativeness
+                });
+                if (result.issues.some(issue => issue.severity === "error")) return;
+                rows.push({ glass: glass.name, thickness, shape, ...summarizeSchedule(result, request.units) });
+            });
+        });
+    });
+    return rows;
+}
+
+interface BatchColumn {
+    title: string;
+    value: (row: BatchRow) => string;
+}
+
+// Thick castings cool at a degree or two an hour, so slow rates keep a decimal
+export const rateText = (r: SegmentRate) => r === "AFAP" ? "AFAP" : r < 10 ? r.toFixed(1) : Math.round(r).toString();
+
+function batchColumns(units: UnitSystem, mode: ScheduleMode): BatchColumn[] {
+    const temp = units === 'metric' ? '°C' : '°F';
+    const length = units === 'metric' ? 'cm' : 'in';
+    const columns: BatchColumn[] = [
+        { title: "Glass", value: r => r.glass },
+        { title: `Thickness (${length})`, value: r => r.thickness.toString() },
+        { title: "Shape", value: r => SHAPE_LABELS[r.shape] },
+    ];
+    if (mode !== "anneal_only") {
+        columns.push({ title: `Top Temp (${temp})`, value: r => Math.round(r.peak_temp).toString() });
+    }
+    return columns.concat([
+        { title: `Anneal Soak (${temp})`, value: r => Math.round(r.soak_temp).toString() },
+        { title: "Soak (h)", value: r => r.soak_hours.toFixed(2) },
+        { title: `Rate 1 (${temp}/hr)`, value: r => rateText(r.rate1) },
+        { title: `Rate 1 To (${temp})`, value: r => Math.round(r.rate1_target).toString() },
+        { title: `Rate 2 (${temp}/hr)`, value: r => rateText(r.rate2) },
+        { title: `Rate 2 To (${temp})`, value: r => Math.round(r.rate2_target).toString() },
+        { title: "Total (h)", value: r => r.total_hours.toFixed(1) },
+    ]);
+}
+
+export const csvField = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+export function batchToCsv(rows: BatchRow[], units: UnitSystem, mode: ScheduleMode): string {
+    const columns = batchColumns(units, mode);
+    return [
+        columns.map(c => csvField(c.title)).join(','),
+        ...rows.map(row => columns.map(c => csvField(c.value(row))).join(','))
+    ].join('\n') + '\n';
+}
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * A standalone HTML page holding the table, styled for printing on white paper.
+ * A new glass starts a new table body so the rows read in groups.
+ */
+export function batchToHtml(rows: BatchRow[], units: UnitSystem, mode: ScheduleMode, title: string): string {
+    const columns = batchColumns(units, mode);
+    const groups: BatchRow[][] = [];
+    rows.forEach((row, i) => {
+        if (i === 0 || row.glass !== rows[i - 1].glass) groups.push([]);
+        groups[groups.length - 1].push(row);
+    });
+
+    const head = columns.map(c => `<th>${escapeHtml(c.title)}</th>`).join('');
+    const bodies = groups.map(group => `<tbody>\n${group.map(row =>
+        `<tr>${columns.map(c => `<td>${escapeHtml(c.value(row))}</td>`).join('')}</tr>`).join('\n')}\n</tbody>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #000; background: #fff; margin: 1.5rem; }
+h1 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+p { font-size: 0.8rem; color: #444; margin: 0 0 1rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.8rem; }
+th, td { border: 1px solid #999; padding: 4px 6px; text-align: right; }
+th:nth-child(-n+3), td:nth-child(-n+3) { text-align: left; }
+th { background: #eee; }
+thead { display: table-header-group; }
+tbody { border-top: 2px solid #000; }
+tr { page-break-inside: avoid; }
+@page { margin: 1cm; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Generated ${escapeHtml(new Date().toLocaleDateString())}. All times and temps are approximate. Ramp/cool rates vary between kilns.</p>
+<table>
+<thead><tr>${head}</tr></thead>
+${bodies}
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,87 @@
+import type { GlassProperties, UnitSystem } from './annealingLogic';
+
+// Soda-lime art glass, for glasses without a known density
+export const DEFAULT_DENSITY = 2.5; // g/cm³
+
+const CM3_PER_IN3 = 16.387;
+const G_PER_OZ = 28.3495;
+
+// Sections differing by more than this ratio heat and cool unevenly
+const UNEVEN_SECTION_RATIO = 2;
+
+// How the amount of glass is known: the mold cavity's volume, or the glass weighed out
+export type CastingBasis = "volume" | "weight";
+
+// Metric: cm, cm², cm³ and grams. Imperial: in, in², in³ and ounces.
+export interface CastingGeometry {
+    basis: CastingBasis;
+    amount: number;          // Volume or weight, per basis
+    footprint_area?: number; // Area the glass covers in the mold, seen from above
+    min_section?: number;    // Thinnest wall or section
+    max_section?: number;    // Thickest section
+}
+
+export interface CastingEstimate {
+    volume: number;              // Of glass in the piece
+    glass_weight: number;        // Needed to fill the mold, before any reservoir allowance
+    density: number;             // g/cm³ used
+    mean_thickness?: number;     // Volume spread evenly over the footprint
+    effective_thickness: number; // Feed to calculateSchedule as the thickness
+    uneven: boolean;             // Sections vary enough to call for the "uneven" shape
+    notes: string[];
+}
+
+/**
+ * Derives an annealing thickness for a casting from how much glass it holds and
+ * its geometry. The thickest part of the piece sets the schedule, so the result
+ * is the larger of the mean depth over the footprint and the thickest section.
+ * Throws an Error when the geometry doesn't give a thickness.
+ */
+export function estimateCasting(geometry: CastingGeometry, glass: GlassProperties, units: UnitSystem): CastingEstimate {
+    const { basis, amount } = geometry;
+    const minSection = geometry.min_section;
+    const area = geometry.footprint_area && geometry.footprint_area > 0 ? geometry.footprint_area : undefined;
+    const maxSection = geometry.max_section && geometry.max_section > 0 ? geometry.max_section : undefined;
+    if (!(amount > 0)) throw new Error(basis === "volume" ? "Please enter the mold volume." : "Please enter the glass weight.");
+    if (area === undefined && maxSection === undefined) {
+        throw new Error("Please enter the footprint area or the thickest section.");
+    }
+    if (minSection !== undefined && maxSection !== undefined && minSection > maxSection) {
+        throw new Error("The thinnest section can't be thicker than the thickest.");
+    }
+
+    const density = glass.density ?? DEFAULT_DENSITY;
+    const notes: string[] = [];
+    if (glass.density === undefined) notes.push(`Density unknown for this glass; assumed ${DEFAULT_DENSITY} g/cm³.`);
+
+    // Density is g/cm³, so work in cm³ and grams and convert back
+    const toCm3 = (v: number) => units === 'metric' ? v : v * CM3_PER_IN3;
+    const fromCm3 = (v: number) => units === 'metric' ? v : v / CM3_PER_IN3;
+    const toGrams = (w: number) => units === 'metric' ? w : w * G_PER_OZ;
+    const fromGrams = (w: number) => units === 'metric' ? w : w / G_PER_OZ;
+
+    const volumeCm3 = basis === "volume" ? toCm3(amount) : toGrams(amount) / density;
+    const volume = fromCm3(volumeCm3);
+    const glassWeight = fromGrams(volumeCm3 * density);
+
+    const meanThickness = area !== undefined ? volume / area : undefined;
+    const effective = Math.max(meanThickness ?? 0, maxSection ?? 0);
+    if (meanThickness !== undefined && maxSection !== undefined && meanThickness > maxSection * 1.05) {
+        notes.push("The volume spread over the footprint is deeper than the thickest section; check the measurements.");
+    }
+
+    const thinnest = minSection ?? (maxSection !== undefined ? meanThickness : undefined);
+    const uneven = thinnest !== undefined && thinnest > 0 && effective / thinnest > UNEVEN_SECTION_RATIO;
+    if (uneven) notes.push(`Sections vary more than ${UNEVEN_SECTION_RATIO}:1; use the Uneven or Hollow shape.`);
+    if (basis === "volume") notes.push("Allow 10-15% extra glass for the reservoir or flowerpot.");
+
+    return {
+        volume,
+        glass_weight: glassWeight,
+        density,
+        mean_thickness: meanThickness,
+        effective_thickness: effective,
+        uneven,
+        notes
+    };
+}
@@ -0,0 +1,65 @@
+import type { ScheduleResult, SegmentPurpose, SegmentRate, UnitSystem } from './annealingLogic';
+
+export interface ComparedSchedule {
+    label: string;
+    result: ScheduleResult;
+}
+
+export const MAX_COMPARED = 4;
+
+export interface ScheduleSummary {
+    soak_hours: number;
+    soak_temp: number;    // Anneal soak temperature, in the requested units
+    rate1: SegmentRate;   // Anneal -> Strain, in the requested units
+    rate1_target: number;
+    rate2: SegmentRate;   // Below the strain point
+    rate2_target: number;
+    peak_temp: number;
+    total_hours: number;
+}
+
+const convertTemp = (t: number, from: UnitSystem, to: UnitSystem) => {
+    if (from === to) return t;
+    return to === 'metric' ? (t - 32) * 5 / 9 : (t * 9 / 5) + 32;
+};
+
+const convertRate = (r: SegmentRate, from: UnitSystem, to: UnitSystem): SegmentRate => {
+    if (r === "AFAP" || from === to) return r;
+    return to === 'metric' ? r * 5 / 9 : r * 9 / 5;
+};
+
+/**
+ * Chart points of a result in the given units, so schedules generated in
+ * different units can share one axis.
+ */
+export function pointsIn(result: ScheduleResult, units: UnitSystem) {
+    return result.points.map(p => ({ ...p, temp: convertTemp(p.temp, result.units, units) }));
+}
+
+/**
+ * The figures that matter when comparing annealing schedules.
+ */
+export function summarizeSchedule(result: ScheduleResult, units: UnitSystem): ScheduleSummary {
+    const segmentOf = (...purposes: SegmentPurpose[]) => result.segments.find(s => purposes.includes(s.purpose));
+    const rateOf = (...purposes: SegmentPurpose[]): SegmentRate => {
+        const seg = segmentOf(...purposes);
+        return seg ? convertRate(seg.rate, result.units, units) : "AFAP";
+    };
+    const targetOf = (...purposes: SegmentPurpose[]) => {
+        const seg = segmentOf(...purposes);
+        return seg ? convertTemp(seg.target, result.units, units) : 0;
+    };
+    // The soak is the hold at the end of the approach to the anneal point (the last part, if a kiln profile split it)
+    const soak = result.segments.filter(s => s.purpose === "cool_to_anneal" || s.purpose === "ramp_to_soak").pop();
+
+    return {
+        soak_hours: soak && soak.hold !== "indefinite" ? soak.hold / 60 : 0,
+        soak_temp: soak ? convertTemp(soak.target, result.units, units) : 0,
+        rate1: rateOf("anneal_cool"),
+        rate1_target: targetOf("anneal_cool"),
+        rate2: rateOf("strain_cool", "final_cool"),
+        rate2_target: targetOf("strain_cool", "final_cool"),
+        peak_temp: Math.max(...pointsIn(result, units).map(p => p.temp)),
+        total_hours: result.points.length ? result.points[result.points.length - 1].time : 0
+    };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { buildSchedulePoints, calculateSchedule } from './annealingLogic';
+import type { ScheduleResult, ScheduleSegment } from './annealingLogic';
+import { CONTROLLERS, fitToController, formatForController, generateTimeStr, tabulateForController } from './controllers';
+import type { ControllerId } from './controllers';
+
+const cast = calculateSchedule({
+    glass: "Bullseye (COE 90)",
+    thickness: 3,
+    units: 'imperial',
+    mode: "cast",
+    mold_dry_hours: 2,
+    bubble_squeeze: { layers: 4, area: 200 }
+});
+
+const segment = (label: string, rate: ScheduleSegment["rate"], target: number, hold: number, from: number): ScheduleSegment => ({
+    purpose: "custom_stage",
+    label,
+    rate,
+    target,
+    hold,
+    ramp_hours: rate === "AFAP" ? 0 : Math.abs(target - from) / rate,
+    reach_label: label
+});
+const resultOf = (segments: ScheduleSegment[]): ScheduleResult => ({
+    units: 'imperial', start_temp: 100, logic_summary: "", segments, points: buildSchedulePoints(segments, 100), issues: []
+});
+
+// Highest rate at each temperature along the cool, for checking nothing got faster
+const coolingRates = (segments: ScheduleSegment[], start: number) => {
+    let from = start;
+    return segments.map((seg) => {
+        const range = [from, seg.target];
+        from = seg.target;
+        return { top: Math.max(...range), bottom: Math.min(...range), rate: seg.rate === "AFAP" ? Infinity : seg.rate, cooling: range[1] < range[0] };
+    });
+};
+
+describe("fitToController", () => {
+    it("leaves a schedule that fits alone", () => {
+        const program = fitToController(cast, 'bartlett_genesis');
+        expect(program.segments).toBe(cast.segments);
+        expect(program.compactions).toEqual([]);
+        expect(program.issues).toEqual([]);
+    });
+
+    it("merges segments down to the controller's limit without cooling anywhere faster", () => {
+        const program = fitToController(cast, 'rampmaster');
+        expect(cast.segments.length).toBeGreaterThan(CONTROLLERS.rampmaster.max_segments);
+        expect(program.segments.length).toBeLessThanOrEqual(CONTROLLERS.rampmaster.max_segments);
+        expect(program.compactions.length).toBe(cast.segments.length - program.segments.length);
+
+        const before = coolingRates(cast.segments, cast.start_temp).filter(s => s.cooling);
+        coolingRates(program.segments, cast.start_temp).filter(s => s.cooling).forEach((merged) => {
+            before.filter(s => s.bottom < merged.top && s.top > merged.bottom)
+                .forEach(original => expect(merged.rate).toBeLessThanOrEqual(original.rate));
+        });
+    });
+
+    it("makes the merge that adds the least time, at the slower rate, and says how much", () => {
+        const program = fitToController(resultOf([
+            segment("Fast", 600, 1000, 0, 100),
+            segment("Slow", 100, 1100, 0, 1000),
+            segment("Top", 300, 1400, 10, 1100),
+            segment("Down", "AFAP", 960, 60, 1400),
+            segment("Cool", 100, 700, 0, 960)
+        ]), 'rampmaster');
+        expect(program.segments.map(s => [s.label, s.rate, s.target])).toEqual([
+            ["Fast", 600, 1000],
+            ["Slow + Top", 100, 1400],
+            ["Down", "AFAP", 960],
+            ["Cool", 100, 700]
+        ]);
+        expect(program.compactions).toEqual(['Merged "Slow" into "Top" at the slower rate, adding 2.0 h to the firing.']);
+    });
+
+    it("never merges across a hold or a change of direction", () => {
+        const program = fitToController(resultOf([
+            segment("A", 300, 500, 10, 100),
+            segment("B", 300, 900, 10, 500),
+            segment("C", 300, 1200, 10, 900),
+            segment("D", 300, 1400, 10, 1200),
+            segment("E", 100, 900, 0, 1400)
+        ]), 'rampmaster');
+        expect(program.segments).toHaveLength(5);
+        expect(program.issues).toContainEqual(expect.objectContaining({ segment: null, message: expect.stringMatching(/needs 5 segments/) }));
+    });
+
+    it("reports rates beyond what the controller can be keyed to", () => {
+        const program = fitToController(resultOf([segment("Up", 2500, 1000, 0, 100)]), 'orton_autofire');
+        expect(program.issues).toContainEqual(expect.objectContaining({ segment: 1, message: expect.stringMatching(/exceeds the Orton/) }));
+    });
+});
+
+describe("formatForController", () => {
+    it("writes a program for every controller", () => {
+        (Object.keys(CONTROLLERS) as ControllerId[]).forEach((id) => {
+            expect(formatForController(cast, id)).toContain("°F");
+        });
+    });
+
+    it("tabulates one row per keyed-in entry", () => {
+        const table = tabulateForController(calculateSchedule({ glass: "Bullseye (COE 90)", thickness: 0.25, units: 'imperial' }), 'paragon_sentry');
+        expect(table.rows).toHaveLength(4);
+    });
+});
+
+describe("generateTimeStr", () => {
+    it("writes hours and minutes", () => {
+        expect(generateTimeStr(0)).toBe("00:00");
+        expect(generateTimeStr(75)).toBe("01:15");
+        expect(generateTimeStr(600)).toBe("10:00");
+    });
+});
@@ -0,0 +1,369 @@
+import type { ScheduleResult, ScheduleSegment, SegmentRate } from './annealingLogic';
+
+export type ControllerId =
+    | "paragon_sentry"
+    | "digitry_gb"
+    | "bartlett_genesis"
+    | "orton_autofire"
+    | "skutt_kilnmaster"
+    | "rampmaster";
+
+// "rate": each segment is entered as rate / target / hold (Paragon, Bartlett, Orton, Skutt...)
+// "cumulative": each step is a target temp at a cumulative clock time from start (Digitry)
+export type ProgramStyle = "rate" | "cumulative";
+
+export interface ControllerSpec {
+    id: ControllerId;
+    name: string;
+    style: ProgramStyle;
+    max_segments: number;     // Segments (rate style) or steps (cumulative style) per program
+    max_rate: number;         // Highest numeric rate the keypad accepts, degrees per hour
+    max_hold_minutes: number; // Longest hold (rate style) or clock time (cumulative style), 99.59 = 5999 minutes
+    afap_token: string;       // What to key in for "as fast as possible"
+    indefinite_hold: string;  // What to key in for "hold until skipped"
+    fields?: {                // Keypad prompts for rate style programs ("{unit}" = °F/°C)
+        rate: string;
+        temp: string;
+        hold: string;
+    };
+}
+
+// Values follow the manufacturers' manuals at the time of writing; firmware revisions differ.
+export const CONTROLLERS: Record<ControllerId, ControllerSpec> = {
+    "paragon_sentry": {
+        id: "paragon_sentry",
+        name: "Paragon Sentry",
+        style: "rate",
+        max_segments: 8,
+        max_rate: 9999,
+        max_hold_minutes: 5999,
+        afap_token: "9999",
+        indefinite_hold: "99.59",
+        fields: { rate: "RA", temp: "{unit}", hold: "HLD" }
+    },
+    "digitry_gb": {
+        id: "digitry_gb",
+        name: "Digitry GB4/5",
+        style: "cumulative",
+        max_segments: 16,
+        max_rate: 9999,
+        max_hold_minutes: 5999,
+        afap_token: "-", // AFAP steps are keyed at their estimated clock time
+        indefinite_hold: "HHHH"
+    },
+    "bartlett_genesis": {
+        id: "bartlett_genesis",
+        name: "Bartlett Genesis",
+        style: "rate",
+        max_segments: 32,
+        max_rate: 9998,
+        max_hold_minutes: 5999,
+        afap_token: "FULL",
+        indefinite_hold: "99.59",
+        fields: { rate: "rA", temp: "{unit}", hold: "HLd" }
+    },
+    "orton_autofire": {
+        id: "orton_autofire",
+        name: "Orton Autofire / Express",
+        style: "rate",
+        max_segments: 9,
+        max_rate: 1998,
+        max_hold_minutes: 5999,
+        afap_token: "FULL",
+        indefinite_hold: "HOLD",
+        fields: { rate: "Rate", temp: "Temp", hold: "Hold" }
+    },
+    "skutt_kilnmaster": {
+        id: "skutt_kilnmaster",
+        name: "Skutt KilnMaster",
+        style: "rate",
+        max_segments: 8,
+        max_rate: 9999,
+        max_hold_minutes: 5999,
+        afap_token: "9999",
+        indefinite_hold: "99.59",
+        fields: { rate: "rA", temp: "{unit}", hold: "HLd" }
+    },
+    "rampmaster": {
+        id: "rampmaster",
+        name: "Rampmaster",
+        style: "rate",
+        max_segments: 4,
+        max_rate: 9999,
+        max_hold_minutes: 5999,
+        afap_token: "9999",
+        indefinite_hold: "99.59",
+        fields: { rate: "RAMP", temp: "TEMP", hold: "HOLD" }
+    },
+};
+
+export const DEFAULT_CONTROLLERS: ControllerId[] = ["paragon_sentry", "digitry_gb"];
+
+export interface ControllerIssue {
+    segment: number | null; // 1-based segment number in the fitted program, null = whole program
+    message: string;
+}
+
+export interface ControllerProgram {
+    controller: ControllerId;
+    segments: ScheduleSegment[]; // Possibly compacted to fit the controller
+    compactions: string[];       // Human readable description of each merge applied
+    issues: ControllerIssue[];   // Limits the program still violates; empty = ready to key in
+}
+
+/**
+ * Checks a schedule against a controller's limits, merging segments where that
+ * can be done without making any part of the firing faster than planned.
+ */
+export function fitToController(result: ScheduleResult, id: ControllerId): ControllerProgram {
+    const spec = CONTROLLERS[id];
+    let segments = result.segments;
+    const compactions: string[] = [];
+
+    while (countEntries(segments, spec) > spec.max_segments) {
+        const merged = compactOnce(segments, result.start_temp);
+        if (!merged) break;
+        segments = merged.segments;
+        compactions.push(merged.note);
+    }
+
+    const issues: ControllerIssue[] = [];
+    const entries = countEntries(segments, spec);
+    if (entries > spec.max_segments) {
+        const noun = spec.style === "cumulative" ? "steps" : "segments";
+        issues.push({
+            segment: null,
+            message: `Program needs ${entries} ${noun} but ${spec.name} allows ${spec.max_segments}, and no further segments can be merged safely.`
+        });
+    }
+
+    let clockMins = 0;
+    segments.forEach((seg, i) => {
+        const sc = i + 1;
+        if (seg.rate !== "AFAP" && Math.round(seg.rate) > spec.max_rate) {
+            issues.push({
+                segment: sc,
+                message: `SEG ${sc} (${seg.label}): rate ${Math.round(seg.rate)}/hr exceeds the ${spec.name} maximum of ${spec.max_rate}/hr.`
+            });
+        }
+
+        clockMins += seg.ramp_hours * 60;
+        if (seg.hold === "indefinite") return;
+        clockMins += seg.hold;
+        if (spec.style === "rate" && Math.round(seg.hold) > spec.max_hold_minutes) {
+            issues.push({
+                segment: sc,
+                message: `SEG ${sc} (${seg.label}): hold ${generateTimeStr(Math.round(seg.hold))} exceeds the ${spec.name} maximum of ${generateTimeStr(spec.max_hold_minutes)}.`
+            });
+        }
+    });
+
+    if (spec.style === "cumulative" && Math.round(clockMins) > spec.max_hold_minutes) {
+        issues.push({
+            segment: null,
+            message: `Program runs ${generateTimeStr(Math.round(clockMins))} but the ${spec.name} clock stops at ${generateTimeStr(spec.max_hold_minutes)}.`
+        });
+    }
+
+    return { controller: id, segments, compactions, issues };
+}
+
+// Rate style controllers count segments, cumulative ones count every ramp and hold step.
+function countEntries(segments: ScheduleSegment[], spec: ControllerSpec): number {
+    if (spec.style === "rate") return segments.length;
+    return segments.reduce((n, seg) => n + (seg.hold_label !== undefined ? 2 : 1), 0);
+}
+
+const rateValue = (r: SegmentRate) => r === "AFAP" ? Infinity : r;
+
+/**
+ * Applies the single cheapest safe merge, or returns null when nothing can be merged.
+ *
+ * Two adjacent ramps in the same direction, the first without a hold, become one ramp at
+ * the slower of the two rates. A mold-dry hold can be folded into the following process
+ * ramp by slowing the ramp so the glass takes just as long to get to temperature.
+ * The merge that adds the least firing time wins.
+ */
+function compactOnce(segments: ScheduleSegment[], startTemp: number): { segments: ScheduleSegment[]; note: string } | null {
+    const starts = segments.map((_, i) => i === 0 ? startTemp : segments[i - 1].target);
+
+    let best: { index: number; merged: ScheduleSegment; addedHours: number; note: string } | null = null;
+    for (let i = 0; i < segments.length - 1; i++) {
+        const a = segments[i];
+        const b = segments[i + 1];
+        const dirA = Math.sign(a.target - starts[i]);
+        const dirB = Math.sign(b.target - a.target);
+        if (dirA === 0 || dirA !== dirB) continue;
+
+        let candidate: { merged: ScheduleSegment; addedHours: number; note: string } | null = null;
+        if (a.hold === 0) {
+            const slowest = Math.min(rateValue(a.rate), rateValue(b.rate));
+            const rampHours = slowest === Infinity
+                ? a.ramp_hours + b.ramp_hours
+                : Math.abs(b.target - starts[i]) / slowest;
+            const addedHours = rampHours - (a.ramp_hours + b.ramp_hours);
+            candidate = {
+                merged: {
+                    ...b,
+                    label: `${a.label} + ${b.label}`,
+                    rate: slowest === Infinity ? "AFAP" : slowest,
+                    ramp_hours: rampHours,
+                    // One straight ramp now: b's natural curve and kiln check no longer describe it
+                    natural_cool: undefined,
+                    kiln_warning: undefined
+                },
+                addedHours,
+                note: `Merged "${a.label}" into "${b.label}" at the slower rate${addedHours >= 0.05 ? `, adding ${addedHours.toFixed(1)} h to the firing` : ""}.`
+            };
+        } else if (a.purpose === "mold_dry" && a.hold !== "indefinite" && dirA > 0) {
+            const totalHours = a.ramp_hours + a.hold / 60 + b.ramp_hours;
+            candidate = {
+                merged: {
+                    ...b,
+                    label: `${b.label} (incl. ${a.label})`,
+                    rate: (b.target - starts[i]) / totalHours,
+                    ramp_hours: totalHours,
+                    natural_cool: undefined,
+                    kiln_warning: undefined
+                },
+                addedHours: 0,
+                note: `Folded the "${a.label}" hold into the "${b.label}" ramp (slower ramp, same total time).`
+            };
+        }
+
+        if (candidate && (!best || candidate.addedHours < best.addedHours)) best = { index: i, ...candidate };
+    }
+
+    if (!best) return null;
+    const out = [...segments];
+    out.splice(best.index, 2, best.merged);
+    return { segments: out, note: best.note };
+}
+
+/**
+ * Renders a schedule as keypad entries for the given controller.
+ */
+export function formatForController(result: ScheduleResult, id: ControllerId): string {
+    const spec = CONTROLLERS[id];
+    const program = fitToController(result, id);
+    const fitted: ScheduleResult = { ...result, segments: program.segments };
+
+    let notes = "";
+    result.issues.forEach(issue => { if (issue.severity === "warning") notes += `WARNING: ${issue.message}\n`; });
+    program.compactions.forEach(c => { notes += `COMPACTED: ${c}\n`; });
+    program.issues.forEach(issue => { notes += `ERROR: ${issue.message}\n`; });
+    if (notes) notes += "\n";
+
+    return notes + (spec.style === "cumulative"
+        ? formatCumulative(fitted, spec)
+        : formatRatePerSegment(fitted, spec));
+}
+
+export interface ControllerTable {
+    headers: string[];
+    rows: string[][];
+    notes: string[]; // Warnings, compactions and limit errors, as in the text program
+}
+
+/**
+ * The same keypad entries as formatForController, laid out as table rows for
+ * printed sheets.
+ */
+export function tabulateForController(result: ScheduleResult, id: ControllerId): ControllerTable {
+    const spec = CONTROLLERS[id];
+    const program = fitToController(result, id);
+    const tempUnit = result.units === 'metric' ? "°C" : "°F";
+    const notes = [
+        ...result.issues.filter(issue => issue.severity === "warning").map(issue => `WARNING: ${issue.message}`),
+        ...program.compactions.map(c => `COMPACTED: ${c}`),
+        ...program.issues.map(issue => `ERROR: ${issue.message}`)
+    ];
+
+    if (spec.style === "cumulative") {
+        const rows: string[][] = [];
+        let currentTime = 0;
+        program.segments.forEach((seg) => {
+            currentTime += seg.ramp_hours;
+            rows.push([`${rows.length + 1}`, seg.reach_label, `${Math.round(seg.target)}`, generateTimeStr(Math.round(currentTime * 60))]);
+            if (seg.hold_label === undefined) return;
+            if (seg.hold === "indefinite") {
+                rows.push([`${rows.length + 1}`, seg.hold_label, `${Math.round(seg.target)}`, spec.indefinite_hold]);
+            } else {
+                currentTime += seg.hold / 60;
+                rows.push([`${rows.length + 1}`, seg.hold_label, `${Math.round(seg.target)}`, generateTimeStr(Math.round(currentTime * 60))]);
+            }
+        });
+        return { headers: ["Step", "", `Temp (${tempUnit})`, "Time"], rows, notes };
+    }
+
+    const fields = spec.fields ?? { rate: "RA", temp: "{unit}", hold: "HLD" };
+    const rows = program.segments.map((seg, i) => [
+        `${i + 1}`,
+        seg.label,
+        seg.rate === "AFAP" ? spec.afap_token : `${Math.round(seg.rate)}`,
+        `${Math.round(seg.target)}`,
+        seg.hold === "indefinite" ? spec.indefinite_hold : generateTimeStr(Math.round(seg.hold))
+    ]);
+    return { headers: ["Seg", "", `${fields.rate} (${tempUnit}/hr)`, `${fields.temp.replace("{unit}", "Temp")} (${tempUnit})`, fields.hold], rows, notes };
+}
+
+function formatRatePerSegment(result: ScheduleResult, spec: ControllerSpec): string {
+    const tempUnit = result.units === 'metric' ? "°C" : "°F";
+    const rateUnit = result.units === 'metric' ? "°C/hr" : "°F/hr";
+    const fields = spec.fields ?? { rate: "RA", temp: "{unit}", hold: "HLD" };
+    const tempField = fields.temp.replace("{unit}", tempUnit);
+
+    let out = `Make sure to verify these against your specific kiln manual.\n`;
+    out += `ALL TEMPS IN ${tempUnit}, RATES IN ${rateUnit}\n`;
+    out += `Logic: ${result.logic_summary}\n\n`;
+
+    const blocks = result.segments.map((seg, i) => {
+        const sc = i + 1;
+        const rateStr = seg.rate === "AFAP" ? spec.afap_token : `${Math.round(seg.rate)}`;
+        const holdStr = seg.hold === "indefinite"
+            ? `${spec.indefinite_hold} (INDEFINITE)`
+            : generateTimeStr(Math.round(seg.hold));
+        const note = seg.note ? `\n  NOTE: ${seg.note}` : "";
+        return `SEG ${sc} (${seg.label}):\n  ${fields.rate}${sc} : ${rateStr}\n  ${tempField}${sc} : ${Math.round(seg.target)}\n  ${fields.hold}${sc}: ${holdStr}${note}`;
+    });
+
+    return out + blocks.join("\n\n");
+}
+
+function formatCumulative(result: ScheduleResult, spec: ControllerSpec): string {
+    const tempUnit = result.units === 'metric' ? "°C" : "°F";
+
+    let out = `NOTE: Time is CUMULATIVE from start.\n`;
+    out += `Logic: ${result.logic_summary}\n`;
+    out += `TEMPS IN ${tempUnit}\n\n`;
+
+    let step = 1;
+    let currentTime = 0;
+    const pushStep = (label: string, seg: ScheduleSegment, timeStr: string, note?: string) => {
+        out += `STEP ${step++}: ${label}\n  TEMP: ${Math.round(seg.target)}${tempUnit}\n  TIME: ${timeStr}\n`;
+        if (note) out += `  NOTE: ${note}\n`;
+        out += `\n`;
+    };
+
+    result.segments.forEach((seg) => {
+        currentTime += seg.ramp_hours;
+        pushStep(seg.reach_label, seg, generateTimeStr(Math.round(currentTime * 60)), seg.note);
+
+        if (seg.hold_label !== undefined) {
+            if (seg.hold === "indefinite") {
+                pushStep(seg.hold_label, seg, spec.indefinite_hold);
+            } else {
+                currentTime += seg.hold / 60;
+                pushStep(seg.hold_label, seg, generateTimeStr(Math.round(currentTime * 60)));
+            }
+        }
+    });
+
+    return out;
+}
+
+export function generateTimeStr(totalMins: number): string {
+    const h = Math.floor(totalMins / 60);
+    const m = Math.floor(totalMins % 60);
+    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
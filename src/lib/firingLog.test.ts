@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSchedule } from './annealingLogic';
+import { compareLogToPlan, parseFiringLog, plannedTempAt } from './firingLog';
+
+const times = (csv: string) => parseFiringLog(csv, 'imperial').map(p => +p.time.toFixed(4));
+
+describe("parseFiringLog", () => {
+    it("reads elapsed time in the unit the header names", () => {
+        expect(times("Minutes,Temp\n0,150\n30,400\n90,900")).toEqual([0, 0.5, 1.5]);
+        expect(times("Elapsed (h),Temp\n0,150\n1.5,900")).toEqual([0, 1.5]);
+    });
+
+    it("converts temperatures when the header names the unit", () => {
+        const log = parseFiringLog("Time,Temp (C)\n0:00,100\n1:00,500", 'imperial');
+        expect(log.map(p => p.temp)).toEqual([212, 932]);
+        expect(parseFiringLog("Time,Temp (F)\n0:00,212\n1:00,932", 'metric').map(p => p.temp)).toEqual([100, 500]);
+    });
+
+    it("reads a headerless log as time then temperature", () => {
+        expect(parseFiringLog("0,150\n2,900", 'imperial')).toEqual([{ time: 0, temp: 150 }, { time: 2, temp: 900 }]);
+    });
+
+    it("keeps clock times counting up past midnight", () => {
+        expect(times("Time,Temp\n22:00,150\n23:30,700\n0:30,900\n2:00,960")).toEqual([0, 1.5, 2.5, 4]);
+    });
+
+    it("joins a separate date column to the clock time", () => {
+        const csv = "Date,Time,Temp (F)\n2024-05-01,22:00,150\n2024-05-01,23:00,600\n2024-05-02,01:00,900\n2024-05-02,22:00,150";
+        expect(times(csv)).toEqual([0, 1, 3, 24]);
+    });
+
+    it("uses a date column for time when there is no other", () => {
+        expect(times("Date,Temp\n2024-05-01T22:00:00,150\n2024-05-02T01:30:00,900")).toEqual([0, 3.5]);
+    });
+
+    it("rejects elapsed times that go backwards", () => {
+        expect(() => parseFiringLog("Hours,Temp\n0,150\n2,900\n1,950", 'imperial')).toThrow("Line 4: time goes backwards.");
+    });
+
+    it("names the line it can't read", () => {
+        expect(() => parseFiringLog("Hours,Temp\n0,150\nsoon,900", 'imperial')).toThrow(/Line 3/);
+        expect(() => parseFiringLog("Hours,Temp\n0,150", 'imperial')).toThrow(/at least two readings/);
+    });
+});
+
+describe("compareLogToPlan", () => {
+    it("finds nothing wrong with a log that follows the plan", () => {
+        const result = calculateSchedule({ glass: "Bullseye (COE 90)", thickness: 0.25, units: 'imperial' });
+        const end = result.points.at(-1)!.time;
+        const log = Array.from({ length: 41 }, (_, i) => {
+            const time = end * i / 40;
+            return { time, temp: plannedTempAt(result.points, time) };
+        });
+        const comparison = compareLogToPlan(log, result, 25);
+        expect(comparison.outliers).toEqual([]);
+        expect(comparison.segments.filter(s => s.flagged)).toEqual([]);
+    });
+});
@@ -0,0 +1,207 @@
+import type { AnnealingSchedulePoint, ScheduleResult, UnitSystem } from './annealingLogic';
+
+// One thermocouple reading from a controller log
+export interface FiringLogPoint {
+    time: number; // Hours since the first reading
+    temp: number; // Result units
+}
+
+export interface SegmentDeviation {
+    label: string;
+    start: number;                // Planned hours
+    end: number;
+    max_deviation: number | null; // Actual - planned at the worst reading, null if the log has no readings here
+    max_deviation_time: number | null;
+    max_cool_rate: number | null; // Fastest actual cooling in a controlled cool, degrees/hr
+    planned_rate: number | null;  // Programmed cooling rate, for comparison
+    flagged: boolean;
+    messages: string[];
+}
+
+export interface LogComparison {
+    tolerance: number;
+    outliers: FiringLogPoint[];   // Readings further than the tolerance from the plan
+    segments: SegmentDeviation[];
+}
+
+// Allowed overshoot of a programmed cooling rate before it counts as cooling too fast
+const RATE_TOLERANCE = 1.1;
+// Cooling rates are measured over at least this window, to ride out thermocouple noise
+const RATE_WINDOW_HOURS = 0.25;
+
+const TIME_HEADERS = /time|elapsed|hour|hr|min|sec/i;
+const DATE_HEADERS = /date/i;
+const TEMP_HEADERS = /temp|tc|thermo|°|deg/i;
+
+/**
+ * Parses a CSV firing log into readings. Looks for time and temperature columns by
+ * header name (falling back to the first two columns). Time may be clock or date-time
+ * stamps (a separate date column is joined to the clock time), "h:mm(:ss)" elapsed time, or a number in the unit the header names
+ * (hours by default). Temperatures are converted when the header says °C or °F.
+ * Throws an Error naming the first unreadable line.
+ */
+export function parseFiringLog(csv: string, units: UnitSystem): FiringLogPoint[] {
+    const lines = csv.split(/\r?\n/).filter(l => l.trim());
+    if (lines.length === 0) throw new Error("The file is empty.");
+
+    const split = (line: string) => line.split(/[,;\t]/).map(c => c.trim().replace(/^"|"$/g, ''));
+    const first = split(lines[0]);
+    const hasHeader = first.some(c => c && isNaN(parseFloat(c)) && !parseClock(c) && isNaN(Date.parse(c)));
+
+    let timeCol = 0;
+    let dateCol = -1;
+    let tempCol = 1;
+    let timeScale = 1; // To hours
+    let tempToF: ((t: number) => number) | null = null;
+    if (hasHeader) {
+        // A date column is the time axis only when there's nothing better; beside a
+        // time column it says which day each clock time is on
+        const t = first.findIndex(c => TIME_HEADERS.test(c));
+        const d = first.findIndex(c => DATE_HEADERS.test(c) && !TIME_HEADERS.test(c));
+        if (t >= 0) {
+            timeCol = t;
+            dateCol = d;
+        } else if (d >= 0) {
+            timeCol = d;
+        }
+        const temp = first.findIndex((c, i) => i !== timeCol && i !== dateCol && TEMP_HEADERS.test(c));
+        if (temp >= 0) tempCol = temp;
+        else tempCol = timeCol === 0 ? 1 : 0;
+
+        const timeHeader = first[timeCol];
+        if (/sec/i.test(timeHeader)) timeScale = 1 / 3600;
+        else if (/min/i.test(timeHeader)) timeScale = 1 / 60;
+
+        const tempHeader = first[tempCol];
+        if (/°?\bC\b|celsius/i.test(tempHeader)) tempToF = (c) => (c * 9 / 5) + 32;
+        else if (/°?\bF\b|fahrenheit/i.test(tempHeader)) tempToF = (f) => f;
+    }
+    const toResult = (t: number) => {
+        if (!tempToF) return t; // Unknown unit, assume the schedule's
+        const f = tempToF(t);
+        return units === 'metric' ? (f - 32) * 5 / 9 : f;
+    };
+
+    const readings: { time: number; temp: number; clock: boolean; where: string }[] = [];
+    lines.slice(hasHeader ? 1 : 0).forEach((line, i) => {
+        const cells = split(line);
+        const where = `Line ${i + (hasHeader ? 2 : 1)}`;
+        const timeCell = cells[timeCol] ?? "";
+        const temp = parseFloat(cells[tempCol] ?? "");
+        if (isNaN(temp)) throw new Error(`${where}: no temperature in column ${tempCol + 1}.`);
+
+        let time: number;
+        const clock = parseClock(timeCell);
+        const numeric = /^-?[\d.]+$/.test(timeCell);
+        const dated = dateCol >= 0 && !numeric ? Date.parse(`${cells[dateCol] ?? ""} ${timeCell}`) : NaN;
+        if (numeric) time = parseFloat(timeCell) * timeScale;
+        else if (!isNaN(dated)) time = dated / 3600000;
+        else if (clock !== null) time = clock;
+        else if (!isNaN(Date.parse(timeCell))) time = Date.parse(timeCell) / 3600000;
+        else throw new Error(`${where}: can't read the time "${timeCell}".`);
+
+        readings.push({ time, temp: toResult(temp), clock: !numeric && isNaN(dated) && clock !== null, where });
+    });
+    if (readings.length < 2) throw new Error("The log needs at least two readings.");
+
+    // Clock times that pass midnight keep counting up. Anything else that goes backwards is a bad log.
+    for (let i = 1; i < readings.length; i++) {
+        if (readings[i].time >= readings[i - 1].time) continue;
+        if (!readings[i].clock) throw new Error(`${readings[i].where}: time goes backwards.`);
+        while (readings[i].time < readings[i - 1].time) readings[i].time += 24;
+    }
+
+    const t0 = readings[0].time;
+    return readings.map(r => ({ time: r.time - t0, temp: r.temp }));
+}
+
+// "h:mm" or "h:mm:ss", as hours
+function parseClock(value: string): number | null {
+    const m = /^(\d+):(\d{2})(?::(\d{2}))?$/.exec(value);
+    if (!m) return null;
+    return parseInt(m[1]) + parseInt(m[2]) / 60 + (m[3] ? parseInt(m[3]) / 3600 : 0);
+}
+
+/**
+ * Planned temperature at a given time, interpolated between schedule points.
+ * Holds past the end of the plan at the last point.
+ */
+export function plannedTempAt(points: AnnealingSchedulePoint[], time: number): number {
+    if (time <= points[0].time) return points[0].temp;
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (time <= b.time) {
+            if (b.time === a.time) return b.temp;
+            return a.temp + (b.temp - a.temp) * (time - a.time) / (b.time - a.time);
+        }
+    }
+    return points[points.length - 1].temp;
+}
+
+/**
+ * Compares a firing log with the planned schedule: readings off the plan by more
+ * than `tolerance` degrees, the worst deviation in each segment, and controlled
+ * cools that ran faster than programmed.
+ */
+export function compareLogToPlan(log: FiringLogPoint[], result: ScheduleResult, tolerance: number): LogComparison {
+    const unit = result.units === 'metric' ? "°C" : "°F";
+    const outliers = log.filter(p => Math.abs(p.temp - plannedTempAt(result.points, p.time)) > tolerance);
+
+    let clock = 0;
+    let prevTemp = result.start_temp;
+    const segments = result.segments.map((seg): SegmentDeviation => {
+        const start = clock;
+        clock += seg.ramp_hours + (seg.hold === "indefinite" ? 0 : seg.hold / 60);
+        const end = clock;
+        const coolingFrom = prevTemp;
+        prevTemp = seg.target;
+
+        const inside = log.filter(p => p.time >= start && p.time <= end);
+        const messages: string[] = [];
+
+        let maxDev: number | null = null;
+        let maxDevTime: number | null = null;
+        for (const p of inside) {
+            const dev = p.temp - plannedTempAt(result.points, p.time);
+            if (maxDev === null || Math.abs(dev) > Math.abs(maxDev)) {
+                maxDev = dev;
+                maxDevTime = p.time;
+            }
+        }
+        if (maxDev !== null && Math.abs(maxDev) > tolerance) {
+            messages.push(`${maxDev > 0 ? 'Ran' : 'Lagged'} ${Math.round(Math.abs(maxDev))}${unit} ${maxDev > 0 ? 'above' : 'below'} plan at ${maxDevTime!.toFixed(1)} h.`);
+        }
+
+        // Only the ramp part of a controlled cool has a rate to check
+        let maxCoolRate: number | null = null;
+        const plannedRate = seg.rate !== "AFAP" && seg.target < coolingFrom ? seg.rate : null;
+        if (plannedRate !== null) {
+            const ramp = inside.filter(p => p.time <= start + seg.ramp_hours);
+            let j = 0;
+            for (let i = 0; i < ramp.length; i++) {
+                while (j < ramp.length && ramp[j].time < ramp[i].time + RATE_WINDOW_HOURS) j++;
+                if (j >= ramp.length) break;
+                const rate = (ramp[i].temp - ramp[j].temp) / (ramp[j].time - ramp[i].time);
+                if (maxCoolRate === null || rate > maxCoolRate) maxCoolRate = rate;
+            }
+            if (maxCoolRate !== null && maxCoolRate > plannedRate * RATE_TOLERANCE) {
+                messages.push(`Cooled at up to ${Math.round(maxCoolRate)}${unit}/hr against ${Math.round(plannedRate)}${unit}/hr programmed.`);
+            }
+        }
+
+        return {
+            label: seg.label,
+            start,
+            end,
+            max_deviation: maxDev,
+            max_deviation_time: maxDevTime,
+            max_cool_rate: maxCoolRate,
+            planned_rate: plannedRate,
+            flagged: messages.length > 0,
+            messages
+        };
+    });
+
+    return { tolerance, outliers, segments };
+}
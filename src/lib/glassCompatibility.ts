@@ -0,0 +1,80 @@
+import type { GlassProperties } from './annealingLogic';
+
+export interface GlassComponent {
+    name: string;
+    properties: GlassProperties;
+    thickness: number; // Layer thickness, same units as the schedule thickness
+}
+
+export interface CompatibilityReport {
+    properties: GlassProperties; // Most demanding combination, feed to calculateSchedule
+    total_thickness: number;
+    coe_spread: number | null;   // Max - min COE across components, null if any COE is unknown
+    compatible: boolean;         // False when the COE spread is beyond tolerance
+    warnings: string[];
+}
+
+// Glasses more than this many COE points apart will fracture when fused together.
+// Even within tolerance, only glasses tested compatible by the manufacturer are safe.
+export const COE_TOLERANCE = 1;
+
+const maxDefined = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length ? Math.max(...defined) : undefined;
+};
+
+/**
+ * Combines the glasses in a fused piece into one set of properties driven by the
+ * most demanding component: highest anneal point, lowest strain point, lowest
+ * (slowest) brand factor and the hottest process temperatures.
+ */
+export function combineGlasses(components: GlassComponent[]): CompatibilityReport {
+    if (components.length === 0) throw new Error("At least one glass is required.");
+
+    const warnings: string[] = [];
+    const props = components.map(c => c.properties);
+
+    const anneals = props.map(p => p.anneal_temp).filter((v): v is number => v !== null);
+    const strains = props.map(p => p.strain_point).filter((v): v is number => v !== null);
+    if (anneals.length < props.length || strains.length < props.length) {
+        warnings.push("Some glasses have no anneal or strain point; enter overrides so the schedule covers them.");
+    }
+
+    const coes = props.map(p => p.coe);
+    let coeSpread: number | null = null;
+    let compatible = true;
+    if (coes.some(c => c === null)) {
+        const unknown = components.filter(c => c.properties.coe === null).map(c => c.name);
+        warnings.push(`COE unknown for ${unknown.join(", ")}. Test compatibility before firing.`);
+    } else {
+        const known = coes as number[];
+        coeSpread = Math.max(...known) - Math.min(...known);
+        if (coeSpread > COE_TOLERANCE) {
+            compatible = false;
+            const list = components.map(c => `${c.name} (COE ${c.properties.coe})`).join(", ");
+            warnings.push(`INCOMPATIBLE GLASSES: ${list} differ by ${coeSpread} COE points. The piece will crack regardless of annealing.`);
+        } else if (new Set(components.map(c => c.name)).size > 1 && coeSpread > 0) {
+            warnings.push(`COE values differ by ${coeSpread}. Only combine glasses tested compatible with each other.`);
+        }
+    }
+
+    const uniformCoe = coeSpread === 0 ? coes[0] : null;
+
+    return {
+        properties: {
+            anneal_temp: anneals.length ? Math.max(...anneals) : null,
+            strain_point: strains.length ? Math.min(...strains) : null,
+            brand_factor: Math.min(...props.map(p => p.brand_factor)),
+            coe: uniformCoe,
+            density: maxDefined(props.map(p => p.density)),
+            slump_temp: maxDefined(props.map(p => p.slump_temp)),
+            tack_fuse_temp: maxDefined(props.map(p => p.tack_fuse_temp)),
+            full_fuse_temp: maxDefined(props.map(p => p.full_fuse_temp)),
+            cast_temp: maxDefined(props.map(p => p.cast_temp))
+        },
+        total_thickness: components.reduce((sum, c) => sum + c.thickness, 0),
+        coe_spread: coeSpread,
+        compatible,
+        warnings
+    };
+}
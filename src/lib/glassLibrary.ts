@@ -0,0 +1,147 @@
+import { GLASS_LIBRARY } from './annealingLogic';
+import type { GlassProperties, GlassType } from './annealingLogic';
+
+export interface GlassProfile {
+    id: string;
+    name: string;
+    builtin: boolean; // Built-ins come from GLASS_LIBRARY and are read-only
+    properties: GlassProperties;
+}
+
+// Built-in ids are the GLASS_LIBRARY keys, so existing "Custom" checks keep working
+export const BUILT_IN_GLASSES: GlassProfile[] = (Object.keys(GLASS_LIBRARY) as GlassType[]).map((key) => ({
+    id: key,
+    name: key,
+    builtin: true,
+    properties: GLASS_LIBRARY[key]
+}));
+
+const STORAGE_KEY = "annealing.glassLibrary";
+const EXPORT_VERSION = 1;
+
+export interface GlassLibraryExport {
+    version: number;
+    glasses: { id?: string; name: string; properties: GlassProperties }[];
+}
+
+/**
+ * Reads the user's glass profiles from browser storage. Returns [] outside the browser.
+ */
+export function loadUserGlasses(): GlassProfile[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const data = JSON.parse(raw);
+        const list: unknown[] = Array.isArray(data?.glasses) ? data.glasses : [];
+        // One bad entry mustn't cost the rest of the library, which the next save would overwrite
+        return list.flatMap((entry, i) => {
+            try {
+                const g = parseGlassEntry(entry, i);
+                return [{ ...createGlassProfile(g.name, g.properties), ...(g.id ? { id: g.id } : {}) }];
+            } catch (err) {
+                console.error("Skipping glass library entry:", err);
+                return [];
+            }
+        });
+    } catch (err) {
+        console.error("Error loading glass library:", err);
+        return [];
+    }
+}
+
+export function saveUserGlasses(profiles: GlassProfile[]): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, exportGlassLibrary(profiles));
+}
+
+export function createGlassProfile(name: string, properties: GlassProperties): GlassProfile {
+    return {
+        id: `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        builtin: false,
+        properties: { ...properties }
+    };
+}
+
+export function duplicateGlassProfile(profile: GlassProfile, existing: GlassProfile[]): GlassProfile {
+    let name = `${profile.name} (Copy)`;
+    for (let n = 2; existing.some(p => p.name === name); n++) {
+        name = `${profile.name} (Copy ${n})`;
+    }
+    return createGlassProfile(name, profile.properties);
+}
+
+/**
+ * Adds glasses that arrived with a link or saved schedule, keeping their ids so the
+ * inputs that refer to them resolve. Glasses already present are left alone.
+ */
+export function addLinkedGlasses(profiles: GlassProfile[], glasses: { id: string; name: string; properties: GlassProperties }[]): GlassProfile[] {
+    const missing = glasses
+        .filter(g => !profiles.some(p => p.id === g.id) && !BUILT_IN_GLASSES.some(b => b.id === g.id))
+        .map((g): GlassProfile => ({ id: g.id, name: g.name, builtin: false, properties: { ...g.properties } }));
+    return missing.length ? [...profiles, ...missing] : profiles;
+}
+
+/**
+ * Serializes user profiles as a versioned JSON document. Built-ins are never exported.
+ */
+export function exportGlassLibrary(profiles: GlassProfile[]): string {
+    const doc: GlassLibraryExport = {
+        version: EXPORT_VERSION,
+        glasses: profiles.filter(p => !p.builtin).map(p => ({ id: p.id, name: p.name, properties: p.properties }))
+    };
+    return JSON.stringify(doc, null, 2);
+}
+
+/**
+ * Parses an exported glass library, throwing an Error that names the first invalid entry.
+ * Accepts either the export document or a bare array of { name, properties }.
+ * Ids are kept so profiles survive a reload; callers importing into an existing
+ * library should issue fresh ones via createGlassProfile.
+ */
+export function parseGlassLibrary(json: string): GlassLibraryExport["glasses"] {
+    const data = JSON.parse(json);
+    const list = Array.isArray(data) ? data : data?.glasses;
+    if (!Array.isArray(list)) throw new Error("Expected a list of glasses.");
+
+    return list.map((entry: unknown, i: number) => parseGlassEntry(entry, i));
+}
+
+/**
+ * Checks one library entry (at `index` in its list), throwing an Error that names it.
+ * Glasses arriving from elsewhere, such as a shared link, go through the same rules.
+ */
+export function parseGlassEntry(entry: unknown, index: number): GlassLibraryExport["glasses"][number] {
+    const e = entry as { id?: unknown; name?: unknown; properties?: Record<string, unknown> };
+    const where = `Glass ${index + 1}`;
+    if (typeof e?.name !== 'string' || !e.name.trim()) throw new Error(`${where}: missing name.`);
+    const p = e.properties;
+    if (!p || typeof p !== 'object') throw new Error(`${where} (${e.name}): missing properties.`);
+
+    const num = (key: string, required: boolean): number | undefined => {
+        const v = p[key];
+        if (v === undefined || v === null) {
+            if (required) throw new Error(`${where} (${e.name}): missing ${key}.`);
+            return undefined;
+        }
+        if (typeof v !== 'number' || !isFinite(v)) throw new Error(`${where} (${e.name}): ${key} must be a number.`);
+        return v;
+    };
+
+    const properties: GlassProperties = {
+        anneal_temp: num("anneal_temp", true)!,
+        strain_point: num("strain_point", true)!,
+        brand_factor: num("brand_factor", true)!,
+        coe: num("coe", false) ?? null, // Older exports predate the COE field
+        density: num("density", false),
+        slump_temp: num("slump_temp", false),
+        tack_fuse_temp: num("tack_fuse_temp", false),
+        full_fuse_temp: num("full_fuse_temp", false),
+        cast_temp: num("cast_temp", false)
+    };
+    if (properties.brand_factor <= 0) throw new Error(`${where} (${e.name}): brand_factor must be positive.`);
+    if (properties.density !== undefined && properties.density <= 0) throw new Error(`${where} (${e.name}): density must be positive.`);
+
+    return { id: typeof e.id === 'string' ? e.id : undefined, name: e.name.trim(), properties };
+}
@@ -0,0 +1,89 @@
+import { AMBIENT_F } from './annealingLogic';
+import type { KilnProperties, UnitSystem } from './annealingLogic';
+
+export interface KilnProfile {
+    id: string;
+    name: string;
+    properties: KilnProperties;
+    cooling_curve?: CoolingCurvePoint[]; // Measured curve the time constant was fitted to
+}
+
+// One reading of a closed kiln cooling down with the elements off
+export interface CoolingCurvePoint {
+    hours: number;
+    temp: number; // °F
+}
+
+const STORAGE_KEY = "annealing.kilnProfiles";
+
+/**
+ * Reads the user's kiln profiles from browser storage. Returns [] outside the browser.
+ */
+export function loadKilnProfiles(): KilnProfile[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const data = JSON.parse(raw);
+        if (!Array.isArray(data)) return [];
+        return data.filter((k: Partial<KilnProfile>) =>
+            typeof k?.id === 'string' && typeof k.name === 'string' &&
+            typeof k.properties?.max_heat_rate === 'number' && typeof k.properties.cooling_tau_hours === 'number');
+    } catch (err) {
+        console.error("Error loading kiln profiles:", err);
+        return [];
+    }
+}
+
+export function saveKilnProfiles(profiles: KilnProfile[]): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function createKilnProfile(name: string, properties: KilnProperties, coolingCurve?: CoolingCurvePoint[]): KilnProfile {
+    return {
+        id: `kiln-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        properties: { ...properties },
+        cooling_curve: coolingCurve
+    };
+}
+
+/**
+ * Parses a measured cooling curve, one "hours, temperature" reading per line
+ * (temperature in the given units). Throws an Error naming the first bad line.
+ */
+export function parseCoolingCurve(text: string, units: UnitSystem): CoolingCurvePoint[] {
+    const points: CoolingCurvePoint[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+        if (!line.trim()) return;
+        const [h, t] = line.trim().split(/[,;\t ]+/).map(v => parseFloat(v));
+        if (isNaN(h) || isNaN(t)) throw new Error(`Line ${i + 1}: expected "hours, temperature".`);
+        points.push({ hours: h, temp: units === 'metric' ? (t * 9 / 5) + 32 : t });
+    });
+    if (points.length < 2) throw new Error("Enter at least two readings.");
+    return points.sort((a, b) => a.hours - b.hours);
+}
+
+/**
+ * Least-squares fit of the natural cooling time constant to a measured curve,
+ * from ln((T - ambient) / (T0 - ambient)) = -t / tau.
+ */
+export function fitCoolingTau(curve: CoolingCurvePoint[]): number {
+    const first = curve[0];
+    if (!(first.temp > AMBIENT_F + 10)) throw new Error("The first reading must be well above room temperature.");
+    const usable = curve.filter(p => p.temp > AMBIENT_F + 10 && p.hours > first.hours);
+    if (usable.length === 0) throw new Error("Readings must cool well above room temperature over time.");
+
+    let sumTT = 0;
+    let sumTY = 0;
+    usable.forEach(p => {
+        const t = p.hours - first.hours;
+        const y = Math.log((p.temp - AMBIENT_F) / (first.temp - AMBIENT_F));
+        sumTT += t * t;
+        sumTY += t * y;
+    });
+    const slope = sumTY / sumTT;
+    if (slope >= 0) throw new Error("Readings must fall over time.");
+    return -1 / slope;
+}
@@ -0,0 +1,145 @@
+import type { ScheduleResult } from './annealingLogic';
+import { CONTROLLERS, tabulateForController } from './controllers';
+import type { ControllerId, ControllerTable } from './controllers';
+
+export interface SheetField {
+    label: string;
+    value: string;
+}
+
+// Everything printed on the kiln-side sheet apart from the chart
+export interface KilnSheet {
+    title: string;
+    fields: SheetField[];   // The inputs the schedule was generated from
+    controller: string;     // Controller name heading the table
+    table: ControllerTable;
+    blanks: string[];       // Filled in by hand at the kiln
+}
+
+export const SHEET_BLANKS = ["Start Time", "Actual Peak Temp", "Operator Initials"];
+
+export function buildKilnSheet(result: ScheduleResult, id: ControllerId, title: string, fields: SheetField[]): KilnSheet {
+    return {
+        title,
+        fields,
+        controller: CONTROLLERS[id].name,
+        table: tabulateForController(result, id),
+        blanks: SHEET_BLANKS
+    };
+}
+
+// A4 portrait at 150 dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 60;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const ROW_HEIGHT = 32;
+
+// Splits text into lines no wider than maxWidth in the context's current font
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    text.split(' ').forEach((word) => {
+        const next = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(next).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = next;
+        }
+    });
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * Draws the sheet onto a page-sized canvas, for PNG export. The page grows past
+ * A4 only when a long program doesn't fit.
+ */
+export function drawKilnSheet(sheet: KilnSheet, chart: HTMLImageElement): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("This browser can't draw images.");
+
+    // Column widths follow the widest entry, with the label column taking what's left
+    ctx.font = '20px sans-serif';
+    const { headers, rows, notes } = sheet.table;
+    const widths = headers.map((h, c) => Math.max(...[h, ...rows.map(r => r[c])].map(t => ctx.measureText(t).width)) + 24);
+    widths[1] = Math.max(0, CONTENT_WIDTH - widths.reduce((sum, w, c) => c === 1 ? sum : sum + w, 0));
+
+    const chartHeight = CONTENT_WIDTH * chart.height / chart.width;
+    const fieldRows = Math.ceil(sheet.fields.length / 2);
+    const noteLines = notes.reduce((n, note) => n + wrapText(ctx, note, CONTENT_WIDTH).length, 0);
+    const needed = MARGIN + 60 + fieldRows * ROW_HEIGHT + 20 + chartHeight + 70
+        + (rows.length + 1) * ROW_HEIGHT + noteLines * 26 + 40 + sheet.blanks.length * 56 + MARGIN;
+
+    // Resizing resets the context's drawing state
+    canvas.width = PAGE_WIDTH;
+    canvas.height = Math.max(PAGE_HEIGHT, Math.ceil(needed));
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#0f172a';
+    ctx.strokeStyle = '#94a3b8';
+    ctx.textBaseline = 'middle';
+
+    let y = MARGIN;
+    ctx.font = 'bold 36px sans-serif';
+    ctx.fillText(sheet.title, MARGIN, y + 18);
+    y += 60;
+
+    sheet.fields.forEach((field, i) => {
+        const x = MARGIN + (i % 2) * CONTENT_WIDTH / 2;
+        const rowY = y + Math.floor(i / 2) * ROW_HEIGHT + ROW_HEIGHT / 2;
+        ctx.font = 'bold 20px sans-serif';
+        ctx.fillText(`${field.label}:`, x, rowY);
+        const labelWidth = ctx.measureText(`${field.label}: `).width;
+        ctx.font = '20px sans-serif';
+        ctx.fillText(field.value, x + labelWidth, rowY);
+    });
+    y += fieldRows * ROW_HEIGHT + 20;
+
+    ctx.drawImage(chart, MARGIN, y, CONTENT_WIDTH, chartHeight);
+    y += chartHeight + 20;
+
+    ctx.font = 'bold 26px sans-serif';
+    ctx.fillText(sheet.controller, MARGIN, y + 18);
+    y += 50;
+
+    [headers, ...rows].forEach((row, r) => {
+        ctx.font = r === 0 ? 'bold 20px sans-serif' : '20px sans-serif';
+        let x = MARGIN;
+        row.forEach((text, c) => {
+            ctx.fillText(text, x + 8, y + ROW_HEIGHT / 2);
+            x += widths[c];
+        });
+        y += ROW_HEIGHT;
+        ctx.beginPath();
+        ctx.moveTo(MARGIN, y);
+        ctx.lineTo(MARGIN + CONTENT_WIDTH, y);
+        ctx.stroke();
+    });
+
+    ctx.font = '18px sans-serif';
+    ctx.fillStyle = '#b91c1c';
+    notes.forEach((note) => {
+        wrapText(ctx, note, CONTENT_WIDTH).forEach((line) => {
+            ctx.fillText(line, MARGIN, y + 13);
+            y += 26;
+        });
+    });
+    ctx.fillStyle = '#0f172a';
+    y += 40;
+
+    ctx.font = 'bold 22px sans-serif';
+    ctx.strokeStyle = '#0f172a';
+    sheet.blanks.forEach((blank) => {
+        ctx.fillText(blank, MARGIN, y + 20);
+        ctx.beginPath();
+        ctx.moveTo(MARGIN + 260, y + 34);
+        ctx.lineTo(MARGIN + CONTENT_WIDTH / 2 + 200, y + 34);
+        ctx.stroke();
+        y += 56;
+    });
+
+    return canvas;
+}
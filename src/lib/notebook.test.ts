@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateSchedule } from './annealingLogic';
+import { createNotebookEntry, loadNotebook, saveNotebook, searchNotebook } from './notebook';
+import { DEFAULT_INPUTS } from './permalink';
+
+const STORAGE_KEY = "annealing.notebook";
+const result = calculateSchedule({ glass: "Bullseye (COE 90)", thickness: 0.25, units: 'imperial' });
+
+beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key)
+    });
+});
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("loadNotebook", () => {
+    it("reads back what was saved", () => {
+        const entry = createNotebookEntry("Plate", "Bullseye (COE 90)", DEFAULT_INPUTS, [], result);
+        saveNotebook([entry]);
+        expect(loadNotebook()).toEqual([entry]);
+    });
+
+    it("fills in inputs that older entries were saved without", () => {
+        const old = JSON.parse(JSON.stringify(createNotebookEntry("Old", "Bullseye (COE 90)", { ...DEFAULT_INPUTS, thickness: "0.5" }, [], result)));
+        ["pieceLength", "pieceWidth", "kilnFloorLength", "kilnFloorWidth", "edgeGap"].forEach(key => delete old.inputs[key]);
+        delete old.result.issues;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([old]));
+
+        const [entry] = loadNotebook();
+        expect(entry.inputs).toEqual({ ...DEFAULT_INPUTS, thickness: "0.5" });
+        expect(entry.result.issues).toEqual([]);
+    });
+
+    it("skips entries that aren't schedules", () => {
+        const entry = createNotebookEntry("Plate", "Bullseye (COE 90)", DEFAULT_INPUTS, [], result);
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([{ id: "x", name: "Broken" }, entry]));
+        expect(loadNotebook().map(e => e.name)).toEqual(["Plate"]);
+    });
+});
+
+describe("searchNotebook", () => {
+    it("matches every word against the name, glass and mode", () => {
+        const plate = createNotebookEntry("Plate", "Bullseye (COE 90)", { ...DEFAULT_INPUTS, scheduleMode: 'full_fuse' }, [], result);
+        const bowl = createNotebookEntry("Bowl", "Oceanside / Spectrum (COE 96)", { ...DEFAULT_INPUTS, scheduleMode: 'slump' }, [], result);
+        expect(searchNotebook([plate, bowl], "bullseye full fuse")).toEqual([plate]);
+        expect(searchNotebook([plate, bowl], "")).toEqual([plate, bowl]);
+    });
+});
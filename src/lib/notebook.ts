@@ -0,0 +1,112 @@
+import type { ScheduleResult } from './annealingLogic';
+import { DEFAULT_INPUTS } from './permalink';
+import type { CalculatorInputs, LinkedGlass } from './permalink';
+
+export type FiringOutcome = "success" | "crack" | "devit" | "bubbles";
+
+export const OUTCOME_LABELS: Record<FiringOutcome, string> = {
+    "success": "Success",
+    "crack": "Crack",
+    "devit": "Devit",
+    "bubbles": "Bubbles",
+};
+
+export interface FiringRecord {
+    outcome: FiringOutcome;
+    fired_on: string; // YYYY-MM-DD
+    notes: string;
+    photo?: string;   // JPEG data URL, downscaled to keep storage small
+}
+
+export interface NotebookEntry {
+    id: string;
+    name: string;
+    created: string;        // ISO timestamp
+    glass_name: string;
+    inputs: CalculatorInputs;
+    glasses: LinkedGlass[]; // User glasses the inputs refer to
+    result: ScheduleResult; // As generated, so the record shows what was actually fired
+    firing?: FiringRecord;
+}
+
+const STORAGE_KEY = "annealing.notebook";
+
+/**
+ * Reads saved schedules from browser storage, newest first. Returns [] outside the browser.
+ */
+export function loadNotebook(): NotebookEntry[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const data = JSON.parse(raw);
+        if (!Array.isArray(data)) return [];
+        return data
+            .filter((e: Partial<NotebookEntry>) =>
+                typeof e?.id === 'string' && typeof e.name === 'string' && !!e.inputs && Array.isArray(e.result?.segments))
+            // Entries saved before newer inputs existed, or before results carried issues
+            .map((e: NotebookEntry) => ({
+                ...e,
+                inputs: { ...DEFAULT_INPUTS, ...e.inputs },
+                result: Array.isArray(e.result.issues) ? e.result : { ...e.result, issues: [] }
+            }));
+    } catch (err) {
+        console.error("Error loading notebook:", err);
+        return [];
+    }
+}
+
+/**
+ * Writes the notebook to browser storage. Throws an Error when storage is full,
+ * which photos make likely.
+ */
+export function saveNotebook(entries: NotebookEntry[]): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (err) {
+        console.error("Error saving notebook:", err);
+        throw new Error("Browser storage is full. Remove some photos or old entries and try again.");
+    }
+}
+
+export function createNotebookEntry(name: string, glassName: string, inputs: CalculatorInputs, glasses: LinkedGlass[], result: ScheduleResult): NotebookEntry {
+    return {
+        id: `fire-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        created: new Date().toISOString(),
+        glass_name: glassName,
+        inputs,
+        glasses,
+        result
+    };
+}
+
+/**
+ * Copies an entry as the starting point for a new firing; the firing record stays behind.
+ */
+export function duplicateNotebookEntry(entry: NotebookEntry, existing: NotebookEntry[]): NotebookEntry {
+    let name = `${entry.name} (Copy)`;
+    for (let n = 2; existing.some(e => e.name === name); n++) {
+        name = `${entry.name} (Copy ${n})`;
+    }
+    return createNotebookEntry(name, entry.glass_name, entry.inputs, entry.glasses, entry.result);
+}
+
+/**
+ * Entries whose name, glass, mode, outcome or notes contain every word of the query.
+ */
+export function searchNotebook(entries: NotebookEntry[], query: string): NotebookEntry[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return entries;
+    return entries.filter(e => {
+        const haystack = [
+            e.name,
+            e.glass_name,
+            e.inputs.scheduleMode.replace('_', ' '),
+            e.firing ? OUTCOME_LABELS[e.firing.outcome] : '',
+            e.firing?.notes ?? ''
+        ].join(' ').toLowerCase();
+        return words.every(w => haystack.includes(w));
+    });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { GLASS_LIBRARY } from './annealingLogic';
+import { DEFAULT_INPUTS, decodePermalink, encodePermalink } from './permalink';
+import type { CalculatorInputs } from './permalink';
+
+const inputs: CalculatorInputs = {
+    ...DEFAULT_INPUTS,
+    glassId: "user-abc",
+    scheduleMode: "full_fuse",
+    thickness: "1.2",
+    units: "metric",
+    multiGlass: true,
+    layers: [{ glassId: "Bullseye (COE 90)", thickness: "0.6" }, { glassId: "user-abc", thickness: "0.6" }],
+    conservativeness: "cautious",
+    processHoldIndefinite: true,
+    unloadTemp: "60",
+    crashCool: "rate",
+    crashRate: "300",
+    pieceLength: "40"
+};
+const glass = { id: "user-abc", name: "Studio Clear", properties: { ...GLASS_LIBRARY["Bullseye (COE 90)"], anneal_temp: 950 } };
+
+describe("permalink", () => {
+    it("decodes what it encodes", () => {
+        expect(decodePermalink(`#${encodePermalink(inputs, [glass])}`)).toEqual({ inputs, glasses: [glass] });
+        expect(decodePermalink(encodePermalink(DEFAULT_INPUTS))).toEqual({ inputs: DEFAULT_INPUTS, glasses: [] });
+    });
+
+    it("leaves out inputs a link doesn't need", () => {
+        expect(encodePermalink(DEFAULT_INPUTS)).toBe("v=1");
+    });
+
+    it("opens a version 1 link the same way however the form's defaults change", () => {
+        const { inputs: decoded } = decodePermalink("v=1&t=0.5")!;
+        expect(decoded).toMatchObject({
+            glassId: "Bullseye (COE 90)",
+            scheduleMode: "anneal_only",
+            thickness: "0.5",
+            units: "imperial",
+            shape: "slab",
+            conservativeness: "fast",
+            crashCool: "afap"
+        });
+    });
+
+    it("ignores hashes that aren't links", () => {
+        expect(decodePermalink("")).toBeNull();
+        expect(decodePermalink("#section-2")).toBeNull();
+    });
+
+    it("falls back to defaults for values it can't read", () => {
+        const { inputs: decoded } = decodePermalink("v=1&m=bake&ly=not-json&u=metric")!;
+        expect(decoded.scheduleMode).toBe("anneal_only");
+        expect(decoded.layers).toEqual([]);
+        expect(decoded.units).toBe("metric");
+    });
+
+    it("drops linked glasses that fail the library's rules", () => {
+        const bad = { id: "user-bad", name: "No temps", properties: { brand_factor: 1 } };
+        const hash = `v=1&gl=${encodeURIComponent(JSON.stringify([bad, glass]))}`;
+        expect(decodePermalink(hash)!.glasses).toEqual([glass]);
+    });
+});
@@ -0,0 +1,253 @@
+import { CONSERVATIVENESS_FACTORS, SHAPE_FACTORS } from './annealingLogic';
+import type { Conservativeness, CrashCool, GlassProperties, ScheduleMode, ShapeFactor, UnitSystem } from './annealingLogic';
+import { parseGlassEntry } from './glassLibrary';
+import { EMPTY_STAGE } from './programStages';
+import type { StageForm } from './programStages';
+
+// Everything on the calculator form, as the form holds it (numbers stay strings)
+export interface CalculatorInputs {
+    glassId: string;
+    scheduleMode: ScheduleMode;
+    thickness: string;
+    units: UnitSystem;
+    multiGlass: boolean;
+    layers: { glassId: string; thickness: string }[];
+    shape: ShapeFactor;
+    conservativeness: Conservativeness;
+    customAnneal: string;
+    customStrain: string;
+    processTemp: string;
+    processHold: string;
+    processHoldIndefinite: boolean;
+    processRamp: string;
+    moldDryHours: string;
+    moldDryTemp: string;
+    bubbleSqueeze: boolean;
+    squeezeLayers: string;
+    squeezeArea: string;
+    programStages: StageForm[];
+    unloadTemp: string;
+    crashCool: CrashCool;
+    crashRate: string;
+    ventLid: boolean;
+    pieceLength: string;
+    pieceWidth: string;
+    kilnFloorLength: string;
+    kilnFloorWidth: string;
+    edgeGap: string;
+}
+
+export const DEFAULT_INPUTS: CalculatorInputs = {
+    glassId: "Bullseye (COE 90)",
+    scheduleMode: "anneal_only",
+    thickness: "0.25",
+    units: "imperial",
+    multiGlass: false,
+    layers: [],
+    shape: "slab",
+    conservativeness: "fast",
+    customAnneal: "",
+    customStrain: "",
+    processTemp: "",
+    processHold: "",
+    processHoldIndefinite: false,
+    processRamp: "",
+    moldDryHours: "",
+    moldDryTemp: "",
+    bubbleSqueeze: false,
+    squeezeLayers: "",
+    squeezeArea: "",
+    programStages: [{ ...EMPTY_STAGE }],
+    unloadTemp: "",
+    crashCool: "afap",
+    crashRate: "",
+    ventLid: false,
+    pieceLength: "",
+    pieceWidth: "",
+    kilnFloorLength: "",
+    kilnFloorWidth: "",
+    edgeGap: "",
+};
+
+// Glasses from the sender's own library travel with the link, keyed by their id
+export interface LinkedGlass {
+    id: string;
+    name: string;
+    properties: GlassProperties;
+}
+
+export interface Permalink {
+    inputs: CalculatorInputs;
+    glasses: LinkedGlass[];
+}
+
+// Parameters are only ever added, so older links decode with defaults for whatever they lack.
+// Renaming a parameter or changing its meaning bumps the version, and decodePermalink
+// translates the old form.
+const PERMALINK_VERSION = 1;
+
+// What a link means by a parameter it leaves out. A copy of the form's defaults as they were
+// for version 1, kept apart so that changing DEFAULT_INPUTS doesn't change what old links open.
+// A parameter added later gets the value that reproduces links made before it existed.
+const LINK_DEFAULTS: CalculatorInputs = {
+    glassId: "Bullseye (COE 90)",
+    scheduleMode: "anneal_only",
+    thickness: "0.25",
+    units: "imperial",
+    multiGlass: false,
+    layers: [],
+    shape: "slab",
+    conservativeness: "fast",
+    customAnneal: "",
+    customStrain: "",
+    processTemp: "",
+    processHold: "",
+    processHoldIndefinite: false,
+    processRamp: "",
+    moldDryHours: "",
+    moldDryTemp: "",
+    bubbleSqueeze: false,
+    squeezeLayers: "",
+    squeezeArea: "",
+    programStages: [{ label: "", rate: "", afap: false, target: "", hold: "", indefinite: false }],
+    unloadTemp: "",
+    crashCool: "afap",
+    crashRate: "",
+    ventLid: false,
+    pieceLength: "",
+    pieceWidth: "",
+    kilnFloorLength: "",
+    kilnFloorWidth: "",
+    edgeGap: "",
+};
+
+// Short URL parameter for each input
+const PARAMS: Record<keyof CalculatorInputs, string> = {
+    glassId: "g",
+    scheduleMode: "m",
+    thickness: "t",
+    units: "u",
+    multiGlass: "mg",
+    layers: "ly",
+    shape: "sh",
+    conservativeness: "sf",
+    customAnneal: "an",
+    customStrain: "st",
+    processTemp: "pt",
+    processHold: "ph",
+    processHoldIndefinite: "pi",
+    processRamp: "pr",
+    moldDryHours: "mdh",
+    moldDryTemp: "mdt",
+    bubbleSqueeze: "bs",
+    squeezeLayers: "bsl",
+    squeezeArea: "bsa",
+    programStages: "ps",
+    unloadTemp: "ul",
+    crashCool: "cc",
+    crashRate: "cr",
+    ventLid: "vl",
+    pieceLength: "pl",
+    pieceWidth: "pw",
+    kilnFloorLength: "kl",
+    kilnFloorWidth: "kw",
+    edgeGap: "eg",
+};
+
+const SCHEDULE_MODES: ScheduleMode[] = ["anneal_only", "tack_fuse", "full_fuse", "cast", "slump", "custom"];
+const CRASH_COOLS: CrashCool[] = ["afap", "rate", "natural"];
+
+// Allowed values for the inputs that are picked from a list
+const CHOICES: Partial<Record<keyof CalculatorInputs, readonly string[]>> = {
+    scheduleMode: SCHEDULE_MODES,
+    units: ["imperial", "metric"],
+    shape: Object.keys(SHAPE_FACTORS),
+    conservativeness: Object.keys(CONSERVATIVENESS_FACTORS),
+    crashCool: CRASH_COOLS,
+};
+
+const str = (v: unknown) => typeof v === "string" ? v : typeof v === "number" ? v.toString() : "";
+
+const toLayer = (l: Record<string, unknown>) => ({ glassId: str(l?.glassId), thickness: str(l?.thickness) });
+
+const toStage = (s: Record<string, unknown>): StageForm => ({
+    label: str(s?.label),
+    rate: str(s?.rate),
+    afap: s?.afap === true,
+    target: str(s?.target),
+    hold: str(s?.hold),
+    indefinite: s?.indefinite === true,
+});
+
+/**
+ * Encodes the form as a URL hash (without the "#"). Only inputs that differ
+ * from the link defaults are written, to keep links short.
+ */
+export function encodePermalink(inputs: CalculatorInputs, glasses: LinkedGlass[] = []): string {
+    const params = new URLSearchParams();
+    params.set("v", PERMALINK_VERSION.toString());
+
+    (Object.keys(PARAMS) as (keyof CalculatorInputs)[]).forEach((key) => {
+        const value = inputs[key];
+        const fallback = LINK_DEFAULTS[key];
+        if (JSON.stringify(value) === JSON.stringify(fallback)) return;
+        if (typeof value === "string") params.set(PARAMS[key], value);
+        else if (typeof value === "boolean") params.set(PARAMS[key], value ? "1" : "0");
+        else params.set(PARAMS[key], JSON.stringify(value));
+    });
+    if (glasses.length > 0) params.set("gl", JSON.stringify(glasses));
+
+    return params.toString();
+}
+
+/**
+ * Decodes a URL hash (with or without the "#"), or returns null when it holds no
+ * calculator link. Unreadable parameters fall back to their defaults.
+ */
+export function decodePermalink(hash: string): Permalink | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ""));
+    if (!params.has("v")) return null;
+
+    const inputs: CalculatorInputs = structuredClone(LINK_DEFAULTS);
+    const target = inputs as unknown as Record<string, unknown>;
+    (Object.keys(PARAMS) as (keyof CalculatorInputs)[]).forEach((key) => {
+        const raw = params.get(PARAMS[key]);
+        if (raw === null) return;
+        const fallback = LINK_DEFAULTS[key];
+
+        if (typeof fallback === "boolean") {
+            target[key] = raw === "1";
+        } else if (typeof fallback === "string") {
+            const choices = CHOICES[key];
+            if (!choices || choices.includes(raw)) target[key] = raw;
+        } else {
+            try {
+                const parsed = JSON.parse(raw);
+                if (Array.isArray(parsed)) target[key] = parsed.map((v: Record<string, unknown>) => key === "layers" ? toLayer(v) : toStage(v));
+            } catch {
+                // Keep the default
+            }
+        }
+    });
+
+    let glasses: LinkedGlass[] = [];
+    try {
+        const parsed = JSON.parse(params.get("gl") ?? "[]");
+        if (Array.isArray(parsed)) {
+            // Held to the same rules as an imported library; a glass that fails them is dropped
+            glasses = parsed.flatMap((g: Partial<LinkedGlass>, i: number) => {
+                if (typeof g?.id !== "string") return [];
+                try {
+                    const { name, properties } = parseGlassEntry(g, i);
+                    return [{ id: g.id, name, properties }];
+                } catch {
+                    return [];
+                }
+            });
+        }
+    } catch {
+        // Links without their glasses fall back to the first built-in
+    }
+
+    return { inputs, glasses };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSchedule } from './annealingLogic';
+import { formatForController } from './controllers';
+import { auditProgram, parseControllerProgram } from './programAudit';
+
+const recommended = calculateSchedule({ glass: "Bullseye (COE 90)", thickness: 0.5, units: 'imperial', mode: "full_fuse" });
+const targets = (text: string) => parseControllerProgram(text, 'imperial', recommended.start_temp).segments.map(s => Math.round(s.target));
+
+describe("parseControllerProgram", () => {
+    it("reads back a rate-style program as formatForController writes it", () => {
+        const program = parseControllerProgram(formatForController(recommended, 'paragon_sentry'), 'imperial', recommended.start_temp);
+        expect(program.style).toBe("rate");
+        expect(program.segments.map(s => Math.round(s.target))).toEqual(recommended.segments.map(s => Math.round(s.target)));
+        expect(program.segments[2].rate).toBe("AFAP");
+    });
+
+    it("reads back a cumulative program as formatForController writes it", () => {
+        const program = parseControllerProgram(formatForController(recommended, 'digitry_gb'), 'imperial', recommended.start_temp);
+        expect(program.style).toBe("cumulative");
+        expect(program.segments.map(s => Math.round(s.target))).toEqual(recommended.segments.map(s => Math.round(s.target)));
+    });
+
+    it("starts from where the recommendation starts, so the first ramps line up", () => {
+        const program = parseControllerProgram(formatForController(recommended, 'paragon_sentry'), 'imperial', recommended.start_temp);
+        expect(program.start_temp).toBe(recommended.start_temp);
+        expect(program.points[0]).toMatchObject({ time: 0, temp: recommended.points[0].temp });
+        expect(program.segments[0].ramp_hours).toBeCloseTo(recommended.segments[0].ramp_hours, 2);
+    });
+
+    it("reads one row per segment and converts a program in the other unit", () => {
+        expect(targets("400 961 0\n100 900 0")).toEqual([961, 900]);
+        expect(targets("RA1 : 222\n°C1 : 516\nHLD1: 01:00")).toEqual([961]);
+    });
+
+    it("names the line it can't read", () => {
+        expect(() => targets("")).toThrow(/Paste a controller program/);
+        expect(() => targets("TIME: 00:10")).toThrow(/has no TEMP before it/);
+    });
+});
+
+describe("auditProgram", () => {
+    const audit = (text: string) => auditProgram(parseControllerProgram(text, 'imperial', recommended.start_temp), recommended, 'imperial');
+
+    it("has nothing to say about the recommended program", () => {
+        expect(audit(formatForController(recommended, 'paragon_sentry')).filter(f => f.severity === "error")).toEqual([]);
+    });
+
+    it("flags a short soak and a fast rate 1", () => {
+        const findings = audit("400 961 0\n600 1490 15\n9999 961 10\n500 900 0\n9999 150 0");
+        expect(findings).toContainEqual(expect.objectContaining({ severity: "error", segment: 3, message: expect.stringMatching(/soak is 10 min/) }));
+        expect(findings).toContainEqual(expect.objectContaining({ severity: "error", segment: 4, message: expect.stringMatching(/^Rate 1/) }));
+    });
+
+    it("flags a program with no soak", () => {
+        expect(audit("400 1490 10\n9999 150 0")).toContainEqual(expect.objectContaining({ severity: "error", segment: null }));
+    });
+});
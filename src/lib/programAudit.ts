@@ -0,0 +1,312 @@
+import { buildSchedulePoints } from './annealingLogic';
+import type { AnnealingSchedulePoint, ScheduleResult, ScheduleSegment, SegmentHold, SegmentRate, UnitSystem } from './annealingLogic';
+import { summarizeSchedule } from './comparison';
+import type { ProgramStyle } from './controllers';
+
+// A controller program read back from text, in the caller's units
+export interface ParsedProgram {
+    style: ProgramStyle;
+    start_temp: number; // Where the schedule it's graded against starts
+    segments: ScheduleSegment[];
+    points: AnnealingSchedulePoint[];
+    notes: string[];    // Assumptions made while reading
+}
+
+export interface AuditFinding {
+    severity: "error" | "warning";
+    segment: number | null; // 1-based segment in the parsed program, null = whole program
+    message: string;
+}
+
+// Keyed-in values that mean "as fast as possible" or "hold until skipped" on the supported controllers
+const AFAP_TOKENS = ["AFAP", "FULL", "9999", "9998"];
+const INDEFINITE_TOKENS = ["99.59", "HOLD", "HHHH", "INDEFINITE"];
+
+const RATE_KEYS = /^(ra|ramp|rate|r)$/i;
+const TEMP_KEYS = /^(°?[fc]|temp|tmp|t)$/i;
+const HOLD_KEYS = /^(hld|hold|h)$/i;
+
+// Temperatures this close (°F) count as the same, e.g. a soak "at" the anneal point
+const TEMP_TOLERANCE_F = 25;
+// Allowed overshoot of a recommended rate before it counts as too fast
+const RATE_TOLERANCE = 1.1;
+// Devitrification grows fastest from about 350 to 550 °F above the anneal point (1250-1450 °F for
+// Bullseye). Short tack and process holds there are normal; long ones are asking for devit.
+const DEVIT_LOW_F = 350;
+const DEVIT_HIGH_F = 550;
+const DEVIT_HOLD_MINUTES = 30;
+
+function parseRate(token: string): SegmentRate | null {
+    if (AFAP_TOKENS.includes(token.toUpperCase())) return "AFAP";
+    const n = Number(token);
+    return isFinite(n) && n > 0 ? n : null;
+}
+
+// "h:mm", Paragon's "h.mm", or whole minutes
+function parseDuration(token: string): number | null {
+    const clock = token.match(/^(\d+)[:.](\d{1,2})$/);
+    if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+    return /^\d+$/.test(token) ? Number(token) : null;
+}
+
+function parseHold(token: string): SegmentHold | null {
+    if (INDEFINITE_TOKENS.includes(token.toUpperCase())) return "indefinite";
+    return parseDuration(token);
+}
+
+// First token of a value, without a trailing unit ("961°F" -> "961")
+const valueToken = (text: string) => text.trim().split(/\s+/)[0].replace(/°[FC]$/i, "");
+
+/**
+ * Reads a pasted controller program back into segments. Takes rate-style programs
+ * ("RA1 : 400", "°F1 : 961", "HLD1: 00:10", or one "rate temp hold" row per segment)
+ * and Digitry-style cumulative programs ("TEMP: 961°F" / "TIME: 00:10" pairs, or
+ * "temp time" rows), as formatForController writes them. A program that states °C or °F
+ * is converted to the caller's units. The first segment ramps from `startTemp` (caller's units),
+ * the start of the schedule it's graded against, so the two are drawn and timed alike.
+ * Throws an Error naming the first unreadable line.
+ */
+export function parseControllerProgram(text: string, units: UnitSystem, startTemp: number): ParsedProgram {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    if (lines.length === 0) throw new Error("Paste a controller program first.");
+
+    const notes: string[] = [];
+    const saysC = /°C/.test(text);
+    const saysF = /°F/.test(text);
+    const programUnits: UnitSystem = saysC && !saysF ? 'metric' : saysF && !saysC ? 'imperial' : units;
+    if (programUnits !== units) notes.push(`The program is in ${programUnits === 'metric' ? "°C" : "°F"}; converted to ${units === 'metric' ? "°C" : "°F"}.`);
+    const toTemp = (t: number) => programUnits === units ? t : units === 'metric' ? (t - 32) * 5 / 9 : t * 9 / 5 + 32;
+    const toRate = (r: SegmentRate): SegmentRate => r === "AFAP" || programUnits === units ? r : units === 'metric' ? r * 5 / 9 : r * 9 / 5;
+
+    const cumulative = lines.some(l => /^TIME\s*:/i.test(l));
+    const segments = cumulative
+        ? readCumulative(lines, startTemp, toTemp)
+        : readRateStyle(lines, startTemp, toTemp, toRate);
+    if (segments.length === 0) throw new Error("No segments found. Paste the program as the controller shows it, one value per line.");
+
+    return {
+        style: cumulative ? "cumulative" : "rate",
+        start_temp: startTemp,
+        segments,
+        points: buildSchedulePoints(segments, startTemp),
+        notes
+    };
+}
+
+function segment(n: number, from: number, target: number, rate: SegmentRate, hold: SegmentHold, rampHours?: number): ScheduleSegment {
+    const label = `Seg ${n}`;
+    return {
+        purpose: "custom_stage",
+        label,
+        rate,
+        target,
+        hold,
+        ramp_hours: rampHours ?? (rate === "AFAP" ? 0 : Math.abs(target - from) / rate),
+        reach_label: `${label} Reach`,
+        hold_label: hold === "indefinite" ? `${label} Hold (Indefinite)` : hold > 0 ? `${label} Hold` : undefined
+    };
+}
+
+function readRateStyle(lines: string[], startTemp: number, toTemp: (t: number) => number, toRate: (r: SegmentRate) => SegmentRate): ScheduleSegment[] {
+    const entries = new Map<number, { rate?: SegmentRate; temp?: number; hold?: SegmentHold }>();
+    let rowCount = 0;
+
+    lines.forEach((line) => {
+        // Keyed: "RA1 : 400", "°F1 : 961", "HLD1: 00:10"
+        const keyed = line.match(/^(°?[A-Za-z]+)\s*(\d+)\s*[:=]?\s*(\S.*)$/);
+        if (keyed && (RATE_KEYS.test(keyed[1]) || TEMP_KEYS.test(keyed[1]) || HOLD_KEYS.test(keyed[1]))) {
+            const n = Number(keyed[2]);
+            const token = valueToken(keyed[3]);
+            const entry = entries.get(n) ?? {};
+            if (RATE_KEYS.test(keyed[1])) {
+                const rate = parseRate(token);
+                if (rate === null) throw new Error(`Can't read the rate in "${line}".`);
+                entry.rate = rate;
+            } else if (TEMP_KEYS.test(keyed[1])) {
+                const temp = Number(token);
+                if (!isFinite(temp)) throw new Error(`Can't read the temperature in "${line}".`);
+                entry.temp = temp;
+            } else {
+                const hold = parseHold(token);
+                if (hold === null) throw new Error(`Can't read the hold in "${line}".`);
+                entry.hold = hold;
+            }
+            entries.set(n, entry);
+            return;
+        }
+
+        // Rows: "rate temp hold", optionally after a segment number
+        const tokens = line.split(/[\s,;|]+/).filter(Boolean).map(t => t.replace(/°[FC]$/i, ""));
+        if (tokens.length === 3 || tokens.length === 4) {
+            const [rate, temp, hold] = tokens.slice(tokens.length - 3);
+            const parsed = { rate: parseRate(rate), temp: Number(temp), hold: parseHold(hold) };
+            if (parsed.rate !== null && isFinite(parsed.temp) && parsed.hold !== null) {
+                entries.set(tokens.length === 4 && /^\d+$/.test(tokens[0]) ? Number(tokens[0]) : ++rowCount, {
+                    rate: parsed.rate,
+                    temp: parsed.temp,
+                    hold: parsed.hold
+                });
+            }
+        }
+        // Anything else (headings, notes) is skipped
+    });
+
+    const segments: ScheduleSegment[] = [];
+    let from = startTemp;
+    [...entries.keys()].sort((a, b) => a - b).forEach((n) => {
+        const entry = entries.get(n)!;
+        if (entry.rate === undefined || entry.temp === undefined) throw new Error(`Segment ${n} needs both a rate and a temperature.`);
+        const target = toTemp(entry.temp);
+        segments.push(segment(segments.length + 1, from, target, toRate(entry.rate), entry.hold ?? 0));
+        from = target;
+    });
+    return segments;
+}
+
+function readCumulative(lines: string[], startTemp: number, toTemp: (t: number) => number): ScheduleSegment[] {
+    const steps: { temp: number; time: number | "indefinite" }[] = [];
+    let pendingTemp: number | null = null;
+
+    lines.forEach((line) => {
+        const temp = line.match(/^TEMP\s*:\s*(\S+)/i);
+        const time = line.match(/^TIME\s*:\s*(\S+)/i);
+        if (temp) {
+            pendingTemp = Number(valueToken(temp[1]));
+            if (!isFinite(pendingTemp)) throw new Error(`Can't read the temperature in "${line}".`);
+        } else if (time) {
+            if (pendingTemp === null) throw new Error(`"${line}" has no TEMP before it.`);
+            const hold = parseHold(valueToken(time[1]));
+            if (hold === null) throw new Error(`Can't read the time in "${line}".`);
+            steps.push({ temp: pendingTemp, time: hold });
+            pendingTemp = null;
+        }
+    });
+
+    // Each step is a temperature to be at by a clock time; an unchanged temperature is a hold
+    const segments: ScheduleSegment[] = [];
+    let from = startTemp;
+    let clock = 0;
+    steps.forEach((step) => {
+        const target = toTemp(step.temp);
+        const last = segments[segments.length - 1];
+        if (step.time === "indefinite") {
+            if (last) {
+                last.hold = "indefinite";
+                last.hold_label = `${last.label} Hold (Indefinite)`;
+            }
+            return;
+        }
+        const minutes = Math.max(0, step.time - clock);
+        clock = Math.max(clock, step.time);
+        if (last && Math.abs(target - from) < 0.5) {
+            if (last.hold !== "indefinite") {
+                last.hold += minutes;
+                last.hold_label = `${last.label} Hold`;
+            }
+            return;
+        }
+        const rate: SegmentRate = minutes > 0 ? Math.abs(target - from) / (minutes / 60) : "AFAP";
+        segments.push(segment(segments.length + 1, from, target, rate, 0, minutes / 60));
+        from = target;
+    });
+    return segments;
+}
+
+/**
+ * Grades a program against the schedule the physics model recommends for the same
+ * glass, thickness and shape: the anneal soak, rate 1 down to the strain point, a
+ * controlled cool below it, and long holds where the glass devitrifies.
+ */
+export function auditProgram(program: ParsedProgram, recommended: ScheduleResult, units: UnitSystem): AuditFinding[] {
+    const rec = summarizeSchedule(recommended, units);
+    const degrees = (f: number) => units === 'metric' ? f * 5 / 9 : f;
+    const tolerance = degrees(TEMP_TOLERANCE_F);
+    const unit = units === 'metric' ? "°C" : "°F";
+    const show = (t: number) => `${Math.round(t)}${unit}`;
+    const showRate = (r: SegmentRate) => r === "AFAP" ? "AFAP" : `${Math.round(r)} ${unit}/hr`;
+    const findings: AuditFinding[] = [];
+    const segs = program.segments;
+    const startOf = (i: number) => i === 0 ? program.start_temp : segs[i - 1].target;
+
+    // Devit: long holds well above the anneal point
+    const devitLow = rec.soak_temp + degrees(DEVIT_LOW_F);
+    const devitHigh = rec.soak_temp + degrees(DEVIT_HIGH_F);
+    segs.forEach((seg, i) => {
+        const long = seg.hold === "indefinite" || seg.hold > DEVIT_HOLD_MINUTES;
+        if (long && seg.target >= devitLow && seg.target <= devitHigh) {
+            findings.push({
+                severity: "warning",
+                segment: i + 1,
+                message: `${seg.hold === "indefinite" ? "An indefinite hold" : `A ${Math.round(seg.hold)} min hold`} at ${show(seg.target)} sits in the devitrification range (${show(devitLow)}-${show(devitHigh)}).`
+            });
+        }
+    });
+
+    // The soak is the first hold after the top temperature between the strain and anneal points.
+    // A soak right at the strain point still counts; the warning below says it's too low.
+    const peak = segs.reduce((best, seg, i) => seg.target > segs[best].target ? i : best, 0);
+    const soakIndex = segs.findIndex((seg, i) => i >= peak
+        && seg.target <= rec.soak_temp + tolerance
+        && seg.target > rec.rate1_target - tolerance
+        && (seg.hold === "indefinite" || seg.hold > 0));
+    if (soakIndex < 0) {
+        findings.push({
+            severity: "error",
+            segment: null,
+            message: `No anneal soak near ${show(rec.soak_temp)}. The model soaks ${Math.round(rec.soak_hours * 60)} min there.`
+        });
+        return findings;
+    }
+    const soak = segs[soakIndex];
+    if (soak.target < rec.soak_temp - tolerance) {
+        findings.push({
+            severity: "warning",
+            segment: soakIndex + 1,
+            message: `Soak at ${show(soak.target)} is below the model's ${show(rec.soak_temp)}; stress relaxes more slowly there, so it may need longer.`
+        });
+    }
+    if (soak.hold !== "indefinite" && soak.hold < rec.soak_hours * 60 * 0.9) {
+        findings.push({
+            severity: "error",
+            segment: soakIndex + 1,
+            message: `Anneal soak is ${Math.round(soak.hold)} min; the model recommends ${Math.round(rec.soak_hours * 60)} min for this piece.`
+        });
+    }
+
+    // Follow the controlled cool down from the soak
+    let reached = soak.target;
+    let i = soakIndex + 1;
+    for (; i < segs.length && segs[i].target < startOf(i) && segs[i].rate !== "AFAP"; i++) {
+        const seg = segs[i];
+        // Rate 1 down to the strain point, rate 2 from there to where the model speeds up again
+        const inRate1 = startOf(i) > rec.rate1_target + tolerance;
+        const inRate2 = !inRate1 && startOf(i) > rec.rate2_target + tolerance;
+        const limit = inRate1 ? rec.rate1 : rec.rate2;
+        if ((inRate1 || inRate2) && limit !== "AFAP" && (seg.rate as number) > limit * RATE_TOLERANCE) {
+            findings.push({
+                severity: inRate1 ? "error" : "warning",
+                segment: i + 1,
+                message: `${inRate1 ? "Rate 1" : "Cooling below the strain point"} at ${showRate(seg.rate)} is faster than the recommended ${showRate(limit)}.`
+            });
+        }
+        reached = seg.target;
+    }
+
+    if (reached > rec.rate1_target + tolerance) {
+        findings.push({
+            severity: "error",
+            segment: i < segs.length ? i + 1 : null,
+            message: i === soakIndex + 1
+                ? `Nothing controls the cool after the soak. The model cools at ${showRate(rec.rate1)} to the strain point (${show(rec.rate1_target)}).`
+                : `The controlled cool stops at ${show(reached)}, above the strain point (${show(rec.rate1_target)}). Add a segment down to it at ${showRate(rec.rate1)}.`
+        });
+    } else if (rec.rate2 !== "AFAP" && reached > rec.rate2_target + tolerance) {
+        findings.push({
+            severity: "warning",
+            segment: i < segs.length ? i + 1 : null,
+            message: `No strain segment: the program lets go at ${show(reached)}. The model cools at ${showRate(rec.rate2)} to ${show(rec.rate2_target)} first.`
+        });
+    }
+
+    return findings;
+}
@@ -0,0 +1,39 @@
+import type { ProgramStage } from './annealingLogic';
+
+// Form state for one stage; numbers stay strings until Generate
+export interface StageForm {
+    label: string;
+    rate: string;
+    afap: boolean;
+    target: string;
+    hold: string;
+    indefinite: boolean;
+}
+
+export const EMPTY_STAGE: StageForm = { label: "", rate: "", afap: false, target: "", hold: "", indefinite: false };
+
+/**
+ * Converts the form rows into engine stages, or returns an error message for the first bad row.
+ */
+export function parseStages(stages: StageForm[]): ProgramStage[] | string {
+    if (stages.length === 0) return "Add at least one stage to the program.";
+
+    const parsed: ProgramStage[] = [];
+    for (let i = 0; i < stages.length; i++) {
+        const s = stages[i];
+        const name = s.label || `Stage ${i + 1}`;
+        const target = parseFloat(s.target);
+        const rate = parseFloat(s.rate);
+        const hold = s.hold ? parseFloat(s.hold) : 0;
+        if (isNaN(target)) return `${name}: enter a target temperature.`;
+        if (!s.afap && (isNaN(rate) || rate <= 0)) return `${name}: enter a rate, or tick AFAP.`;
+        if (!s.indefinite && (isNaN(hold) || hold < 0)) return `${name}: hold must be zero or more minutes.`;
+        parsed.push({
+            label: s.label.trim(),
+            rate: s.afap ? "AFAP" : rate,
+            target,
+            hold: s.indefinite ? "indefinite" : hold
+        });
+    }
+    return parsed;
+}
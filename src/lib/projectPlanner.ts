@@ -0,0 +1,173 @@
+import { AMBIENT_F, NATURAL_COOL_TAU_HOURS, calculateSchedule } from './annealingLogic';
+import type {
+    AnnealingSchedulePoint,
+    Conservativeness,
+    CoolingOptions,
+    GlassProperties,
+    KilnProperties,
+    PiecePlacement,
+    ScheduleMode,
+    ScheduleRequest,
+    ScheduleResult,
+    ShapeFactor,
+    UnitSystem
+} from './annealingLogic';
+
+// A firing in a project. "fire_polish" is a short tack-range firing that only glosses the surface.
+export type FiringKind = Exclude<ScheduleMode, "custom"> | "fire_polish";
+
+export const FIRING_KIND_LABELS: Record<FiringKind, string> = {
+    "full_fuse": "Full Fuse",
+    "tack_fuse": "Tack Fuse",
+    "fire_polish": "Fire Polish",
+    "slump": "Slump / Drape",
+    "cast": "Cast",
+    "anneal_only": "Anneal Only",
+};
+
+export interface FiringPlan {
+    label: string;
+    kind: FiringKind;
+    shape?: ShapeFactor; // Overrides the shape carried over from the previous firing
+}
+
+export interface ProjectBase {
+    glass: GlassProperties;
+    thickness: number;   // Starting thickness, cm (metric) or inches (imperial)
+    units: UnitSystem;
+    shape: ShapeFactor;  // Starting shape
+    conservativeness: Conservativeness;
+    customAnneal?: number;
+    customStrain?: number;
+    cooling?: CoolingOptions;
+    kiln?: KilnProperties;
+    placement?: PiecePlacement;
+    kilnPowerKw: number; // Element power, for the energy estimate
+}
+
+export interface PlannedFiring {
+    plan: FiringPlan;
+    thickness: number;   // Thickness going into this firing
+    shape: ShapeFactor;  // Shape going into this firing
+    request: ScheduleRequest;
+    result: ScheduleResult;
+    hours: number;
+    energy_kwh: number;
+}
+
+export interface ProjectPlan {
+    firings: PlannedFiring[];
+    total_hours: number;
+    total_energy_kwh: number;
+}
+
+// Shape of the piece after each kind of firing (undefined = unchanged)
+const SHAPE_AFTER: Partial<Record<FiringKind, ShapeFactor>> = {
+    "full_fuse": "slab",
+    "tack_fuse": "uneven",
+    "slump": "hollow_deep",
+};
+
+// A full fuse pulls thin stacks in until they reach ~6 mm ("volume control")
+const EQUILIBRIUM_MM = 6;
+
+/**
+ * Chains calculateSchedule across the firings of one piece, carrying thickness
+ * and shape forward, and totals kiln time and estimated energy.
+ */
+export function planProject(base: ProjectBase, firings: FiringPlan[]): ProjectPlan {
+    let thickness = base.thickness;
+    let shape = base.shape;
+    const planned: PlannedFiring[] = [];
+
+    firings.forEach((plan) => {
+        if (plan.shape) shape = plan.shape;
+
+        const isPolish = plan.kind === "fire_polish";
+        const mode: ScheduleMode = plan.kind === "fire_polish" ? "tack_fuse" : plan.kind;
+        const request: ScheduleRequest = {
+            glass: base.glass,
+            thickness,
+            units: base.units,
+            mode,
+            shape,
+            conservativeness: base.conservativeness,
+            anneal_temp: base.customAnneal,
+            strain_point: base.customStrain,
+            process_hold_minutes: isPolish ? 5 : undefined, // Fire polish: brief hold at tack temperature
+            cooling: base.cooling,
+            kiln: base.kiln,
+            placement: base.placement
+        };
+        const result = calculateSchedule(request);
+
+        planned.push({
+            plan,
+            thickness,
+            shape,
+            request,
+            result,
+            hours: scheduleHours(result.points),
+            energy_kwh: estimateEnergyKwh(result.points, base.units, base.kilnPowerKw, base.kiln)
+        });
+
+        // Carry the physical changes into the next firing
+        shape = SHAPE_AFTER[plan.kind] ?? shape;
+        if (plan.kind === "full_fuse") {
+            const equilibrium = base.units === 'metric' ? EQUILIBRIUM_MM / 10 : EQUILIBRIUM_MM / 25.4;
+            thickness = Math.max(thickness, equilibrium);
+        }
+    });
+
+    return {
+        firings: planned,
+        total_hours: planned.reduce((sum, f) => sum + f.hours, 0),
+        total_energy_kwh: planned.reduce((sum, f) => sum + f.energy_kwh, 0)
+    };
+}
+
+export function scheduleHours(points: AnnealingSchedulePoint[]): number {
+    return points.length ? points[points.length - 1].time : 0;
+}
+
+// Rough kiln heat-loss model: full element power just holds MAX_TEMP_F, losses scale with
+// the temperature above ambient, and a closed kiln cools on its own with time constant NATURAL_COOL_TAU_HOURS.
+// A kiln profile replaces the generic heating rate and time constant.
+const MAX_TEMP_F = 2350;
+const MAX_HEAT_RATE_F = 1000;
+
+/**
+ * Estimates electricity used by a schedule, in kWh. Good to roughly ±30%;
+ * real use depends on insulation, load and kiln size.
+ */
+export function estimateEnergyKwh(points: AnnealingSchedulePoint[], units: UnitSystem, kilnPowerKw: number, kiln?: KilnProperties): number {
+    const toF = (t: number) => units === 'metric' ? (t * 9 / 5) + 32 : t;
+    const maxHeatRate = kiln?.max_heat_rate ?? MAX_HEAT_RATE_F;
+    const tau = kiln?.cooling_tau_hours ?? NATURAL_COOL_TAU_HOURS;
+    const STEPS = 20;
+    let kwh = 0;
+
+    for (let i = 1; i < points.length; i++) {
+        const t0 = toF(points[i - 1].temp);
+        const t1 = toF(points[i].temp);
+        const hours = points[i].time - points[i - 1].time;
+        if (hours <= 0) continue;
+        const slope = (t1 - t0) / hours; // °F/hr
+
+        for (let s = 0; s < STEPS; s++) {
+            const temp = t0 + (t1 - t0) * (s + 0.5) / STEPS;
+            const lossFrac = Math.max(0, (temp - AMBIENT_F) / (MAX_TEMP_F - AMBIENT_F));
+            let duty: number;
+            if (slope >= 0) {
+                duty = Math.min(1, lossFrac + slope / maxHeatRate);
+            } else {
+                // Elements only run to slow a cool that is slower than the kiln's natural cooling
+                const naturalRate = (temp - AMBIENT_F) / tau;
+                duty = naturalRate > 0 ? lossFrac * Math.max(0, 1 + slope / naturalRate) : 0;
+            }
+            kwh += kilnPowerKw * duty * hours / STEPS;
+        }
+    }
+
+    return kwh;
+}
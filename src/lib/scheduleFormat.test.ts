@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { GLASS_LIBRARY, calculateSchedule } from './annealingLogic';
+import type { ScheduleRequest } from './annealingLogic';
+import { parseRequest, parseResult, serializeRequest, serializeResult } from './scheduleFormat';
+
+const bullseye = GLASS_LIBRARY["Bullseye (COE 90)"];
+const kiln = { max_heat_rate: 900, cooling_tau_hours: 3, power_kw: 2, volume_liters: 50 };
+const metric: ScheduleRequest = {
+    glass: bullseye,
+    thickness: 1.2,
+    units: 'metric',
+    mode: "full_fuse",
+    process_hold_minutes: 20,
+    stages: [],
+    cooling: { unload_temp: 60, crash_cool: "rate", crash_rate: 200 },
+    kiln
+};
+
+const document = (request: object) => JSON.stringify({ format: "kiln-schedule-request", version: 1, request });
+
+describe("schedule request documents", () => {
+    it("round-trip a request", () => {
+        const back = parseRequest(serializeRequest(metric));
+        expect(back.glass).toMatchObject({ anneal_temp: expect.closeTo(961, 6), strain_point: expect.closeTo(900, 6) });
+        expect(back.kiln!.max_heat_rate).toBeCloseTo(900, 6);
+        const targets = (request: ScheduleRequest) => calculateSchedule(request).segments.map(s => s.target);
+        expect(targets(back)).toEqual(targets(metric).map(t => expect.closeTo(t, 6)));
+    });
+
+    it("write glass and kiln values in the document's units", () => {
+        const written = JSON.parse(serializeRequest(metric)).request;
+        expect(written.glass.anneal_temp).toBeCloseTo(516.1, 1);
+        expect(written.glass.full_fuse_temp).toBeCloseTo(810, 1);
+        expect(written.kiln.max_heat_rate).toBe(500);
+        expect(JSON.parse(serializeRequest({ ...metric, units: 'imperial' })).request.glass.anneal_temp).toBe(961);
+    });
+
+    it("read metric glass temperatures as °C", () => {
+        const request = parseRequest(document({ glass: { anneal_temp: 516, strain_point: 482 }, thickness: 1, units: "metric" }));
+        const soak = calculateSchedule(request).segments.find(s => s.purpose === "ramp_to_soak")!;
+        expect(soak.target).toBeCloseTo(516, 6);
+    });
+
+    it("accept library glasses by name, and nothing else", () => {
+        expect(parseRequest(document({ glass: "Bullseye (COE 90)", thickness: 1, units: "imperial" })).glass).toBe("Bullseye (COE 90)");
+        expect(() => parseRequest(document({ glass: "toString", thickness: 1, units: "imperial" }))).toThrow(/Unknown glass/);
+    });
+
+    it("name the first bad field", () => {
+        expect(() => parseRequest(document({ glass: "Custom", units: "imperial" }))).toThrow("Missing thickness.");
+        expect(() => parseRequest(document({ glass: "Custom", thickness: 1, units: "imperial", mode: "bake" }))).toThrow(/^mode must be one of/);
+        expect(() => parseRequest(document({ glass: "Custom", thickness: 1, units: "imperial", stages: [{ rate: "fast", target: 900 }] }))).toThrow("stages[0].rate must be a number.");
+    });
+
+    it("refuse documents from a newer version", () => {
+        expect(() => parseRequest(JSON.stringify({ format: "kiln-schedule-request", version: 2, request: {} }))).toThrow(/newer/);
+        expect(() => parseRequest(JSON.stringify({ format: "kiln-schedule-result", version: 1 }))).toThrow(/kiln-schedule-request/);
+    });
+});
+
+describe("schedule result documents", () => {
+    it("round-trip a result with its request", () => {
+        const result = calculateSchedule(metric);
+        const back = parseResult(serializeResult(result, metric));
+        expect(back.result).toEqual(result);
+        expect(back.request!.kiln!.max_heat_rate).toBeCloseTo(900, 6);
+        expect(parseResult(serializeResult(result))).toEqual({ result });
+    });
+});
@@ -0,0 +1,243 @@
+import { CONSERVATIVENESS_FACTORS, GLASS_LIBRARY, SHAPE_FACTORS } from './annealingLogic';
+import type { GlassProperties, GlassType, ScheduleRequest, ScheduleResult } from './annealingLogic';
+
+/*
+ * JSON documents for handing schedules between tools.
+ *
+ * A request:
+ *   { "format": "kiln-schedule-request", "version": 1, "request": ScheduleRequest }
+ *
+ * A result, with the request it answers when the writer has it:
+ *   { "format": "kiln-schedule-result", "version": 1, "request"?: ScheduleRequest, "result": ScheduleResult }
+ *
+ * Field names and meanings are those of ScheduleRequest and ScheduleResult in annealingLogic.
+ * Every temperature, rate and length is in the document's "units" ("metric": °C, °C/hr, cm;
+ * "imperial": °F, °F/hr, in), including the glass properties and the kiln's max_heat_rate,
+ * which the engine itself holds in °F. Durations carry their unit in the field name, except segment
+ * holds (minutes) and point times (hours), as in the types. "AFAP" and "indefinite" take the
+ * place of a number where the types allow.
+ *
+ * Fields are only ever added within a version, and readers ignore fields they don't know.
+ * Renaming or removing a field, or changing its meaning, bumps the version.
+ */
+export const SCHEDULE_FORMAT_VERSION = 1;
+
+const REQUEST_FORMAT = "kiln-schedule-request";
+const RESULT_FORMAT = "kiln-schedule-result";
+
+export interface ScheduleRequestDocument {
+    format: typeof REQUEST_FORMAT;
+    version: number;
+    request: ScheduleRequest;
+}
+
+export interface ScheduleResultDocument {
+    format: typeof RESULT_FORMAT;
+    version: number;
+    request?: ScheduleRequest;
+    result: ScheduleResult;
+}
+
+const SCHEDULE_MODES = ["anneal_only", "tack_fuse", "full_fuse", "cast", "slump", "custom"];
+const CRASH_COOLS = ["afap", "rate", "natural"];
+
+export function serializeRequest(request: ScheduleRequest): string {
+    const doc: ScheduleRequestDocument = { format: REQUEST_FORMAT, version: SCHEDULE_FORMAT_VERSION, request: toDocumentUnits(request) };
+    return JSON.stringify(doc, null, 2);
+}
+
+export function serializeResult(result: ScheduleResult, request?: ScheduleRequest): string {
+    const doc: ScheduleResultDocument = { format: RESULT_FORMAT, version: SCHEDULE_FORMAT_VERSION, request: request && toDocumentUnits(request), result };
+    return JSON.stringify(doc, null, 2);
+}
+
+// Throws unless `data` is a document of the given format in a version this reader knows
+function checkDocument(data: unknown, format: string): Record<string, unknown> {
+    const doc = data as Record<string, unknown> | null;
+    if (!doc || typeof doc !== 'object' || doc.format !== format) throw new Error(`Expected a "${format}" document.`);
+    if (typeof doc.version !== 'number') throw new Error("Missing format version.");
+    if (doc.version > SCHEDULE_FORMAT_VERSION) {
+        throw new Error(`Format version ${doc.version} is newer than this calculator reads (${SCHEDULE_FORMAT_VERSION}).`);
+    }
+    return doc;
+}
+
+/**
+ * Reads and checks a request document, throwing an Error that names the first bad field.
+ * Values the engine judges (a strain point above the anneal point, say) are left to
+ * calculateSchedule, which reports them as issues.
+ */
+export function parseRequest(json: string): ScheduleRequest {
+    return readRequest(checkDocument(JSON.parse(json), REQUEST_FORMAT).request);
+}
+
+/**
+ * Reads a result document. Its request comes back too when the document has one.
+ */
+export function parseResult(json: string): { result: ScheduleResult; request?: ScheduleRequest } {
+    const doc = checkDocument(JSON.parse(json), RESULT_FORMAT);
+    const r = doc.result as Record<string, unknown> | null;
+    if (!r || typeof r !== 'object') throw new Error("Missing result.");
+    if (r.units !== 'metric' && r.units !== 'imperial') throw new Error('result.units must be "metric" or "imperial".');
+    if (typeof r.start_temp !== 'number') throw new Error("result.start_temp must be a number.");
+    if (!Array.isArray(r.segments) || !Array.isArray(r.points)) throw new Error("result needs segments and points.");
+
+    const result = { ...r, issues: Array.isArray(r.issues) ? r.issues : [] } as unknown as ScheduleResult;
+    return doc.request === undefined ? { result } : { result, request: readRequest(doc.request) };
+}
+
+function readRequest(data: unknown): ScheduleRequest {
+    const r = data as Record<string, unknown> | null;
+    if (!r || typeof r !== 'object') throw new Error("Missing request.");
+
+    const num = (value: unknown, name: string): number | undefined => {
+        if (value === undefined) return undefined;
+        if (typeof value !== 'number' || !isFinite(value)) throw new Error(`${name} must be a number.`);
+        return value;
+    };
+    const choice = <T extends string>(value: unknown, name: string, choices: readonly string[]): T | undefined => {
+        if (value === undefined) return undefined;
+        if (typeof value !== 'string' || !choices.includes(value)) throw new Error(`${name} must be one of: ${choices.join(", ")}.`);
+        return value as T;
+    };
+    const required = (value: unknown, name: string) => {
+        const n = num(value, name);
+        if (n === undefined) throw new Error(`Missing ${name}.`);
+        return n;
+    };
+    const obj = (value: unknown, name: string): Record<string, unknown> | undefined => {
+        if (value === undefined) return undefined;
+        if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${name} must be an object.`);
+        return value as Record<string, unknown>;
+    };
+
+    const thickness = required(r.thickness, "thickness");
+    const units = choice<ScheduleRequest["units"]>(r.units, "units", ["metric", "imperial"]);
+    if (units === undefined) throw new Error('Missing units ("metric" or "imperial").');
+    if (typeof r.process_hold_indefinite !== 'undefined' && typeof r.process_hold_indefinite !== 'boolean') {
+        throw new Error("process_hold_indefinite must be true or false.");
+    }
+
+    if (r.stages !== undefined && !Array.isArray(r.stages)) throw new Error("stages must be a list.");
+    const stages = (r.stages as unknown[] | undefined)?.map((s, i) => {
+        const where = `stages[${i}]`;
+        const stage = obj(s, where) ?? {};
+        return {
+            label: typeof stage.label === 'string' ? stage.label : "",
+            rate: stage.rate === "AFAP" ? "AFAP" as const : required(stage.rate, `${where}.rate`),
+            target: required(stage.target, `${where}.target`),
+            hold: stage.hold === "indefinite" ? "indefinite" as const : num(stage.hold, `${where}.hold`) ?? 0
+        };
+    });
+
+    const squeeze = obj(r.bubble_squeeze, "bubble_squeeze");
+    const cooling = obj(r.cooling, "cooling");
+    const kiln = obj(r.kiln, "kiln");
+    const placement = obj(r.placement, "placement");
+    if (cooling?.vent_lid !== undefined && typeof cooling.vent_lid !== 'boolean') throw new Error("cooling.vent_lid must be true or false.");
+
+    return fromDocumentUnits({
+        glass: readGlass(r.glass),
+        thickness,
+        units,
+        mode: choice(r.mode, "mode", SCHEDULE_MODES),
+        shape: choice(r.shape, "shape", Object.keys(SHAPE_FACTORS)),
+        conservativeness: choice(r.conservativeness, "conservativeness", Object.keys(CONSERVATIVENESS_FACTORS)),
+        anneal_temp: num(r.anneal_temp, "anneal_temp"),
+        strain_point: num(r.strain_point, "strain_point"),
+        process_temp: num(r.process_temp, "process_temp"),
+        process_hold_minutes: num(r.process_hold_minutes, "process_hold_minutes"),
+        process_hold_indefinite: r.process_hold_indefinite as boolean | undefined,
+        process_ramp: num(r.process_ramp, "process_ramp"),
+        mold_dry_hours: num(r.mold_dry_hours, "mold_dry_hours"),
+        mold_dry_temp: num(r.mold_dry_temp, "mold_dry_temp"),
+        stages,
+        bubble_squeeze: squeeze && {
+            layers: required(squeeze.layers, "bubble_squeeze.layers"),
+            area: required(squeeze.area, "bubble_squeeze.area")
+        },
+        cooling: cooling && {
+            unload_temp: num(cooling.unload_temp, "cooling.unload_temp"),
+            crash_cool: choice(cooling.crash_cool, "cooling.crash_cool", CRASH_COOLS),
+            crash_rate: num(cooling.crash_rate, "cooling.crash_rate"),
+            vent_lid: cooling.vent_lid as boolean | undefined
+        },
+        kiln: kiln && {
+            max_heat_rate: required(kiln.max_heat_rate, "kiln.max_heat_rate"),
+            cooling_tau_hours: required(kiln.cooling_tau_hours, "kiln.cooling_tau_hours"),
+            power_kw: required(kiln.power_kw, "kiln.power_kw"),
+            volume_liters: required(kiln.volume_liters, "kiln.volume_liters")
+        },
+        placement: placement && {
+            length: required(placement.length, "placement.length"),
+            width: num(placement.width, "placement.width"),
+            kiln_length: num(placement.kiln_length, "placement.kiln_length"),
+            kiln_width: num(placement.kiln_width, "placement.kiln_width"),
+            edge_gap: num(placement.edge_gap, "placement.edge_gap")
+        }
+    });
+}
+
+// A library key, or glass properties (in the document's units, converted afterwards)
+function readGlass(value: unknown): ScheduleRequest["glass"] {
+    if (typeof value === 'string') {
+        if (!Object.hasOwn(GLASS_LIBRARY, value)) throw new Error(`Unknown glass "${value}". Known: ${Object.keys(GLASS_LIBRARY).join(", ")}.`);
+        return value as GlassType;
+    }
+    const g = value as Record<string, unknown> | null;
+    if (!g || typeof g !== 'object') throw new Error("Missing glass (a library name or glass properties).");
+
+    const temp = (key: string): number | null => {
+        const v = g[key];
+        if (v === undefined || v === null) return null;
+        if (typeof v !== 'number' || !isFinite(v)) throw new Error(`glass.${key} must be a number or null.`);
+        return v;
+    };
+    const optional = (key: string) => temp(key) ?? undefined;
+
+    const brandFactor = g.brand_factor ?? 1;
+    if (typeof brandFactor !== 'number' || !(brandFactor > 0)) throw new Error("glass.brand_factor must be a positive number.");
+
+    const glass: GlassProperties = {
+        anneal_temp: temp("anneal_temp"),
+        strain_point: temp("strain_point"),
+        brand_factor: brandFactor,
+        coe: temp("coe"),
+        density: optional("density"),
+        slump_temp: optional("slump_temp"),
+        tack_fuse_temp: optional("tack_fuse_temp"),
+        full_fuse_temp: optional("full_fuse_temp"),
+        cast_temp: optional("cast_temp")
+    };
+    return glass;
+}
+
+// GlassProperties and KilnProperties are in °F whatever the request's units; the document
+// holds them in its units like every other value
+function toDocumentUnits(request: ScheduleRequest): ScheduleRequest {
+    if (request.units === 'imperial') return request;
+    return convertEngineValues(request, f => (f - 32) * 5 / 9, rate => rate * 5 / 9);
+}
+
+function fromDocumentUnits(request: ScheduleRequest): ScheduleRequest {
+    if (request.units === 'imperial') return request;
+    return convertEngineValues(request, c => (c * 9 / 5) + 32, rate => rate * 9 / 5);
+}
+
+function convertEngineValues(request: ScheduleRequest, temp: (t: number) => number, rate: (r: number) => number): ScheduleRequest {
+    const { glass, kiln } = request;
+    const optional = (t: number | undefined) => t === undefined ? undefined : temp(t);
+    return {
+        ...request,
+        glass: typeof glass === 'string' ? glass : {
+            ...glass,
+            anneal_temp: glass.anneal_temp === null ? null : temp(glass.anneal_temp),
+            strain_point: glass.strain_point === null ? null : temp(glass.strain_point),
+            slump_temp: optional(glass.slump_temp),
+            tack_fuse_temp: optional(glass.tack_fuse_temp),
+            full_fuse_temp: optional(glass.full_fuse_temp),
+            cast_temp: optional(glass.cast_temp)
+        },
+        kiln: kiln && { ...kiln, max_heat_rate: rate(kiln.max_heat_rate) }
+    };
+}
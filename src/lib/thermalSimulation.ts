@@ -0,0 +1,220 @@
+import type { ScheduleResult, ShapeFactor } from './annealingLogic';
+import { plannedTempAt } from './firingLog';
+
+/*
+ * 1D transient heat conduction through the piece as the kiln follows the schedule.
+ *
+ * The kiln air follows the schedule points; the exposed face exchanges heat with it by
+ * radiation and convection, and heat conducts through the glass (backward Euler on a fixed
+ * grid, so AFAP steps don't need tiny time steps). A two-sided piece is symmetric, so only
+ * half of it is solved, with the centre as an insulated boundary. A one-sided piece is
+ * solved through its full thickness with the back face insulated.
+ *
+ * Residual stress uses the "instant freeze" approximation: the temperature profile at the
+ * moment the hottest part of the glass last cools through the strain point is locked in,
+ * and whatever is left after the glass cools evenly to room temperature is permanent.
+ */
+
+// Faces heat moves through. A slab on a shelf loses heat top and bottom (the shelf follows
+// the kiln closely enough); a hollow or deep form mostly through its open face, with the mold
+// or the air trapped inside insulating the other.
+export const SHAPE_HEAT_SIDES: Record<ShapeFactor, 1 | 2> = {
+    "slab": 2,
+    "uneven": 2,
+    "hollow_deep": 1
+};
+
+// Soda-lime glass in the annealing range
+const CONDUCTIVITY = 1.0;      // W/m·K
+const SPECIFIC_HEAT = 1000;    // J/kg·K
+const EMISSIVITY = 0.9;
+const CONVECTION = 10;         // W/m²·K, still kiln air
+const YOUNGS_MODULUS = 70e3;   // MPa
+const POISSON_RATIO = 0.22;
+const DEFAULT_DENSITY = 2.5;   // g/cm³
+const DEFAULT_COE = 90;        // x10^-7 /°C, when the glass doesn't say
+const STEFAN_BOLTZMANN = 5.67e-8;
+const MPA_TO_PSI = 145.04;
+
+const NODES = 41;
+const STEP_SECONDS = 5;
+const MAX_SAMPLES = 500;
+
+export interface ThermalSimulationInput {
+    result: ScheduleResult;
+    thickness: number;  // Result units (cm or in)
+    shape: ShapeFactor;
+    coe: number | null;
+    density?: number;   // g/cm³
+}
+
+export interface ThermalSample {
+    time: number;    // Hours
+    surface: number; // Result units
+    core: number;    // Centre of a two-sided piece, back face of a one-sided one
+}
+
+export interface SegmentGradient {
+    label: string;
+    start: number;       // Hours
+    end: number;
+    peak_delta: number;  // Core minus surface at its largest, in result-unit degrees (+ = core hotter)
+}
+
+export interface ThermalSimulation {
+    sides: 1 | 2;
+    samples: ThermalSample[];
+    segments: SegmentGradient[];
+    residual: {          // Null when the glass never cools through the strain point
+        surface: number; // At the exposed face, + = tension (usually negative: compression)
+        tension: number; // Largest tension anywhere through the thickness
+        units: "MPa" | "psi";
+    } | null;
+    notes: string[];
+}
+
+/**
+ * Runs the schedule through a slab of the given thickness. Heavy for long schedules,
+ * so the UI calls it from a Web Worker (thermalSimulation.worker.ts).
+ */
+export function simulateHeatFlow(input: ThermalSimulationInput): ThermalSimulation {
+    const { result, thickness, shape } = input;
+    const metric = result.units === 'metric';
+    const notes: string[] = [];
+    const toC = (t: number) => metric ? t : (t - 32) * 5 / 9;
+    const fromC = (t: number) => metric ? t : t * 9 / 5 + 32;
+    const fromDelta = (d: number) => metric ? d : d * 9 / 5;
+
+    const sides = SHAPE_HEAT_SIDES[shape];
+    const thicknessM = thickness * (metric ? 0.01 : 0.0254);
+    const length = sides === 2 ? thicknessM / 2 : thicknessM;
+    const dx = length / (NODES - 1);
+    const heatCapacity = (input.density ?? DEFAULT_DENSITY) * 1000 * SPECIFIC_HEAT; // J/m³·K
+    const r = CONDUCTIVITY * STEP_SECONDS / (heatCapacity * dx * dx);
+    const coe = input.coe ?? DEFAULT_COE;
+    if (input.coe === null) notes.push(`The glass has no COE; stress assumes ${DEFAULT_COE}.`);
+
+    // Segment windows on the chart's time axis (indefinite holds take no time, as plotted)
+    let clock = 0;
+    const windows = result.segments.map((seg) => {
+        const start = clock;
+        clock += seg.ramp_hours;
+        if (seg.hold_label !== undefined && seg.hold !== "indefinite") clock += seg.hold / 60;
+        return { label: seg.label, start, end: clock, peak: 0 };
+    });
+    const totalHours = clock;
+    const strainSeg = result.segments.find(s => s.purpose === "anneal_cool");
+    const strainC = strainSeg ? toC(strainSeg.target) : null;
+
+    const temps = new Array<number>(NODES).fill(toC(result.points[0]?.temp ?? result.start_temp));
+    let frozen: number[] | null = null;
+    const samples: ThermalSample[] = [];
+    const steps = Math.ceil(totalHours * 3600 / STEP_SECONDS);
+    const sampleEvery = Math.max(1, Math.ceil(steps / MAX_SAMPLES));
+    const sample = (time: number) => samples.push({ time, surface: fromC(temps[0]), core: fromC(temps[NODES - 1]) });
+    sample(0);
+
+    // Tridiagonal system scratch space
+    const lower = new Array<number>(NODES);
+    const diag = new Array<number>(NODES);
+    const upper = new Array<number>(NODES);
+    const rhs = new Array<number>(NODES);
+
+    let w = 0;
+    for (let step = 1; step <= steps; step++) {
+        const time = Math.min(totalHours, step * STEP_SECONDS / 3600);
+        const kilnC = toC(plannedTempAt(result.points, time));
+
+        // Radiation linearised about the last surface temperature
+        const kilnK = kilnC + 273.15;
+        const surfaceK = temps[0] + 273.15;
+        const h = CONVECTION + EMISSIVITY * STEFAN_BOLTZMANN * (kilnK * kilnK + surfaceK * surfaceK) * (kilnK + surfaceK);
+        const b = 2 * h * STEP_SECONDS / (heatCapacity * dx);
+
+        for (let i = 0; i < NODES; i++) {
+            lower[i] = -r;
+            diag[i] = 1 + 2 * r;
+            upper[i] = -r;
+            rhs[i] = temps[i];
+        }
+        // Exposed face and insulated far side are half cells
+        diag[0] = 1 + 2 * r + b;
+        upper[0] = -2 * r;
+        rhs[0] += b * kilnC;
+        lower[NODES - 1] = -2 * r;
+        solveTridiagonal(lower, diag, upper, rhs, temps);
+
+        const core = temps[NODES - 1];
+        const delta = core - temps[0];
+        while (w < windows.length - 1 && time > windows[w].end) w++;
+        if (windows[w] && Math.abs(delta) > Math.abs(windows[w].peak)) windows[w].peak = delta;
+
+        // The hottest point is the core while cooling; a reheat above the strain point unfreezes
+        if (strainC !== null) {
+            const hottest = Math.max(...temps);
+            if (hottest >= strainC) frozen = null;
+            else if (frozen === null) frozen = temps.slice();
+        }
+
+        if (step % sampleEvery === 0 || step === steps) sample(time);
+    }
+
+    let residual: ThermalSimulation["residual"] = null;
+    if (frozen) {
+        const stress = residualStress(frozen, sides, coe);
+        const scale = metric ? 1 : MPA_TO_PSI;
+        residual = { surface: stress.surface * scale, tension: stress.tension * scale, units: metric ? "MPa" : "psi" };
+    } else if (strainC !== null) {
+        notes.push("The schedule ends before the glass cools through the strain point, so there is no residual stress to estimate.");
+    }
+
+    return {
+        sides,
+        samples,
+        segments: windows.map(win => ({ label: win.label, start: win.start, end: win.end, peak_delta: fromDelta(win.peak) })),
+        residual,
+        notes
+    };
+}
+
+// Thomas algorithm; writes the solution into `out`
+function solveTridiagonal(lower: number[], diag: number[], upper: number[], rhs: number[], out: number[]) {
+    const n = diag.length;
+    const c = new Array<number>(n);
+    const d = new Array<number>(n);
+    c[0] = upper[0] / diag[0];
+    d[0] = rhs[0] / diag[0];
+    for (let i = 1; i < n; i++) {
+        const m = diag[i] - lower[i] * c[i - 1];
+        c[i] = upper[i] / m;
+        d[i] = (rhs[i] - lower[i] * d[i - 1]) / m;
+    }
+    out[n - 1] = d[n - 1];
+    for (let i = n - 2; i >= 0; i--) out[i] = d[i] - c[i] * out[i + 1];
+}
+
+/**
+ * Permanent stress (MPa, + = tension) at the exposed face, and the largest tension inside,
+ * from a frozen-in temperature profile (°C, exposed face first). The glass is free to shrink and, when
+ * heated from one side only, to bow, so the mean and (one-sided) linear part of the profile
+ * relax and only the rest is locked in.
+ */
+function residualStress(profile: number[], sides: 1 | 2, coe: number): { surface: number; tension: number } {
+    const n = profile.length;
+    const x = (i: number) => i / (n - 1);
+    // Trapezoid-rule averages over the grid
+    const average = (f: (i: number) => number) => {
+        let sum = 0;
+        for (let i = 0; i < n; i++) sum += f(i) * (i === 0 || i === n - 1 ? 0.5 : 1);
+        return sum / (n - 1);
+    };
+    const mean = average(i => profile[i]);
+    // Bending: the first moment of the profile about the mid-plane, as a linear profile
+    const slope = sides === 1 ? 12 * average(i => profile[i] * (x(i) - 0.5)) : 0;
+    const locked = (i: number) => profile[i] - mean - slope * (x(i) - 0.5);
+
+    // Where the glass was hotter when it set, it shrinks more afterwards and ends up in tension
+    const modulus = YOUNGS_MODULUS * coe * 1e-7 / (1 - POISSON_RATIO);
+    const stress = profile.map((_, i) => modulus * locked(i));
+    return { surface: stress[0], tension: Math.max(0, ...stress) };
+}
@@ -0,0 +1,7 @@
+import { simulateHeatFlow } from './thermalSimulation';
+import type { ThermalSimulationInput } from './thermalSimulation';
+
+// Runs off the main thread so a long schedule doesn't stall the page
+self.onmessage = (e: MessageEvent<ThermalSimulationInput>) => {
+    self.postMessage(simulateHeatFlow(e.data));
+};
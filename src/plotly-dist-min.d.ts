@@ -0,0 +1,5 @@
+// plotly.js-dist-min ships the full plotly.js bundle without its own typings
+declare module 'plotly.js-dist-min' {
+    import * as Plotly from 'plotly.js';
+    export default Plotly;
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite'
+
+// Builds the command-line schedule generator as a single Node script:
+//   npm run build:cli && node dist-cli/kiln-schedule.js --help
+export default defineConfig({
+  build: {
+    ssr: 'cli/kilnSchedule.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    copyPublicDir: false,
+    rollupOptions: {
+      output: { entryFileNames: 'kiln-schedule.js' },
+    },
+  },
+})